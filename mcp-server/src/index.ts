@@ -2,49 +2,169 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
+import path from 'path';
 import { z } from 'zod';
-import { N8nNodeService } from './services/node-service.js';
-import { N8nWorkflowService } from './services/workflow-service.js';
+import { WorkflowConflictError, WorkflowData, toWorkflowData } from './services/workflow-service.js';
+import { InstanceContext, InstanceRegistry, getWebhookBaseUrl } from './services/instance-registry.js';
+import { PromotionMappingStore } from './services/promotion-store.js';
+import { WorkflowPromoter } from './services/workflow-promoter.js';
+import { WorkflowSyncService } from './services/workflow-sync.js';
+import { ExecutionDiagnoser } from './services/execution-diagnoser.js';
+import { ExecutionStatsService } from './services/execution-stats.js';
+import { WorkflowTester } from './services/workflow-tester.js';
+import { WorkflowTestRunner, toJUnitXml } from './services/workflow-test-runner.js';
+import { CredentialBinder, CredentialBinding } from './services/credential-binder.js';
+import { WorkflowScaffolder } from './services/workflow-scaffolder.js';
+import { WorkflowTemplateService } from './services/template-service.js';
+import { getNodeOutput, summarizeExecution } from './utils/execution-data.js';
+import { applyWorkflowPatch, renameNodeInWorkflow } from './utils/workflow-patch.js';
+import { diffWorkflows } from './utils/workflow-diff.js';
+import { layoutWorkflow } from './utils/workflow-layout.js';
+import { instantiateTemplate } from './utils/workflow-template.js';
+import { startHttpServer } from './transports/http.js';
 import { logger } from './utils/logger.js';
 
 // Load environment variables
 dotenv.config();
 
-// Validate required environment variables
-const requiredEnvVars = ['N8N_API_URL', 'N8N_API_KEY'];
-const missingVars = requiredEnvVars.filter(v => !process.env[v]);
-if (missingVars.length > 0) {
-  logger.error(`Missing required environment variables: ${missingVars.join(', ')}`);
-  process.exit(1);
-}
+// Initialize services: one set per n8n instance, created on first use
+const instances = loadInstances();
 
-// Initialize services
-const nodeService = new N8nNodeService(
-  process.env.N8N_MCP_DB_PATH || './data/nodes.db',
-  process.env.N8N_MCP_TEMPLATES_DB_PATH || '../n8n-mcp/data/templates.db'
+const promotionStore = new PromotionMappingStore(
+  process.env.N8N_MCP_PROMOTION_DB_PATH || './data/promotions.db'
 );
+const workflowPromoter = new WorkflowPromoter(promotionStore);
 
-const workflowService = new N8nWorkflowService(
-  process.env.N8N_API_URL!,
-  process.env.N8N_API_KEY!
+// Templates are shared by all instances
+const templateService = new WorkflowTemplateService(
+  process.env.N8N_MCP_TEMPLATES_DB_PATH || './data/templates.db'
 );
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'n8n-unified-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+function loadInstances(): InstanceRegistry {
+  try {
+    const registry = InstanceRegistry.fromEnvironment();
+    // Fail fast on a misconfigured default instance
+    registry.get();
+    return registry;
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
   }
-);
+}
+
+/**
+ * Pre-flight check run before a workflow is written to n8n.
+ * Throws when the connection graph has errors, otherwise returns the warnings.
+ */
+function runPreflight({ graphAnalyzer }: InstanceContext, workflow: WorkflowData) {
+  const analysis = graphAnalyzer.analyze(workflow);
+  if (!analysis.valid) {
+    const details = analysis.errors.map(e => `- ${e.message} (${e.path})`).join('\n');
+    throw new Error(`Pre-flight check failed, workflow was not saved:\n${details}\nFix the connections or pass skipPreflight: true to save anyway.`);
+  }
+  return analysis.warnings;
+}
+
+/**
+ * Full offline validation (node parameters and connection graph) run before a
+ * patched workflow is written. Throws on errors, otherwise returns the warnings.
+ */
+function runValidation({ workflowValidator, graphAnalyzer }: InstanceContext, workflow: WorkflowData) {
+  const validation = workflowValidator.validate(workflow);
+  const analysis = graphAnalyzer.analyze(workflow);
+  const errors = [...validation.errors, ...analysis.errors];
+  if (errors.length > 0) {
+    const details = errors.map(e => `- ${e.node ? `${e.node}: ` : ''}${e.message} (${e.path})`).join('\n');
+    throw new Error(`Validation failed, workflow was not saved:\n${details}\nFix the operations or pass skipValidation: true to save anyway.`);
+  }
+  return [...validation.warnings, ...analysis.warnings];
+}
+
+/**
+ * Directory used by the workflow sync tools: N8N_WORKFLOWS_DIR or a
+ * subdirectory of it. The server may be shared over HTTP, so clients cannot
+ * point the tools at other paths.
+ */
+function syncDir(args: any): string {
+  const root = path.resolve(process.env.N8N_WORKFLOWS_DIR || './workflows');
+  const dir = path.resolve(root, args?.dir || '.');
+  if (dir !== root && !dir.startsWith(root + path.sep)) {
+    throw new Error(`Directory "${args.dir}" is outside the workflows directory`);
+  }
+  return dir;
+}
+
+/**
+ * Test file or directory used by run_workflow_tests: N8N_WORKFLOW_TESTS_DIR or
+ * a path inside it, for the same reason as syncDir
+ */
+function testsPath(args: any): string {
+  const root = path.resolve(process.env.N8N_WORKFLOW_TESTS_DIR || './workflow-tests');
+  const target = path.resolve(root, args?.path || '.');
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    throw new Error(`Test path "${args.path}" is outside the workflow tests directory`);
+  }
+  return target;
+}
+
+/**
+ * Bind existing credentials to the workflow's nodes in place. Binding is a
+ * convenience of the write tools: when the instance's credentials cannot be
+ * listed (older n8n versions, API keys without the credential scope), the
+ * workflow is left as-is and the failure is returned as a warning.
+ */
+async function bindWorkflowCredentials(
+  context: InstanceContext,
+  workflow: WorkflowData
+): Promise<{ bindings: CredentialBinding[]; warning?: string }> {
+  const binder = new CredentialBinder(context.workflowService, context.nodeService);
+  try {
+    const result = await binder.bind(workflow);
+    workflow.nodes = result.workflow.nodes;
+    return { bindings: result.bindings };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Skipping credential binding: ${message}`);
+    return {
+      bindings: [],
+      warning: `Credentials were not bound because the instance's credentials could not be listed (${message}). Set node credentials yourself, or pass bindCredentials: false to skip binding.`,
+    };
+  }
+}
+
+/**
+ * Response fields describing the credential binding of a write tool
+ */
+function credentialBindingFields(binding: { bindings: CredentialBinding[]; warning?: string } | null) {
+  return {
+    ...(binding && binding.bindings.length > 0 ? { credentialBindings: binding.bindings } : {}),
+    ...(binding?.warning ? { credentialBindingsWarning: binding.warning } : {}),
+  };
+}
+
+/**
+ * Error response for an unknown node type, with "did you mean" suggestions
+ */
+function nodeNotFoundResponse({ nodeService }: InstanceContext, nodeType: string) {
+  const resolution = nodeService.resolveNodeType(nodeType);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          error: `Node type not found: ${nodeType}`,
+          didYouMean: resolution.suggestions,
+        }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
 
 // Tool definitions
 const tools = [
@@ -53,19 +173,35 @@ const tools = [
   // ============================================
   {
     name: 'search_n8n_nodes',
-    description: 'Search for n8n nodes by keyword. Searches across node names, descriptions, and documentation. Returns comprehensive node information including parameters, operations, and examples.',
+    description: 'Search for n8n nodes by keyword. Full-text search across node names, aliases, descriptions, operations, and documentation with relevance ranking (multi-word queries and prefix matching supported). Returns minimal node info with a relevance score; use get_node_info for full details.',
     inputSchema: {
       type: 'object' as const,
       properties: {
         keyword: {
           type: 'string',
-          description: 'Search keyword (e.g., "slack", "database", "webhook")',
+          description: 'Search keywords (e.g., "slack", "send email", "postgres query")',
         },
         limit: {
           type: 'number',
           description: 'Maximum number of results to return (default: 10)',
           default: 10,
         },
+        category: {
+          type: 'string',
+          description: 'Only return nodes in this category (e.g., "transform", "trigger", "output")',
+        },
+        package: {
+          type: 'string',
+          description: 'Only return nodes from this package (e.g., "n8n-nodes-base", "@n8n/n8n-nodes-langchain")',
+        },
+        isTrigger: {
+          type: 'boolean',
+          description: 'Only return trigger nodes (true) or non-trigger nodes (false)',
+        },
+        isAiTool: {
+          type: 'boolean',
+          description: 'Only return nodes usable as AI tools (true) or not (false)',
+        },
       },
       required: ['keyword'],
     },
@@ -78,12 +214,64 @@ const tools = [
       properties: {
         nodeType: {
           type: 'string',
-          description: 'The node type (e.g., "nodes-base.slack", "nodes-base.postgres")',
+          description: 'The node type. Accepts full types ("n8n-nodes-base.slack", "@n8n/n8n-nodes-langchain.agent"), database types ("nodes-base.slack"), bare names ("httpRequest"), display names ("HTTP Request") and aliases, case-insensitively',
+        },
+        typeVersion: {
+          type: 'number',
+          description: 'Optional typeVersion to get the parameters of that version (e.g., 2.1). Defaults to the latest version',
+        },
+      },
+      required: ['nodeType'],
+    },
+  },
+  {
+    name: 'get_node_operation',
+    description: 'Get only the parameters relevant to one resource + operation of a node (e.g. Slack message/post), including required flags, defaults, options and credentials. Much smaller than get_node_info for resource/operation nodes. Omit operation to list the node\'s resource -> operation tree.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        nodeType: {
+          type: 'string',
+          description: 'The node type (e.g., "n8n-nodes-base.slack", "slack", "Google Sheets")',
+        },
+        resource: {
+          type: 'string',
+          description: 'Resource value (e.g., "message"). Optional when the operation is unique or the node has no resources',
+        },
+        operation: {
+          type: 'string',
+          description: 'Operation value (e.g., "post"). Omit to list available resources and operations',
+        },
+        typeVersion: {
+          type: 'number',
+          description: 'Optional typeVersion of the node. Defaults to the latest version',
         },
       },
       required: ['nodeType'],
     },
   },
+  {
+    name: 'diff_node_versions',
+    description: 'Compare two typeVersions of a node: parameters added, removed or changed (type, default, options, required), operations added/removed and credential changes. Use when a workflow pins an older typeVersion.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        nodeType: {
+          type: 'string',
+          description: 'The node type (e.g., "n8n-nodes-base.httpRequest", "httpRequest")',
+        },
+        fromVersion: {
+          type: 'number',
+          description: 'The older typeVersion (e.g., 3)',
+        },
+        toVersion: {
+          type: 'number',
+          description: 'The newer typeVersion (e.g., 4.2)',
+        },
+      },
+      required: ['nodeType', 'fromVersion', 'toVersion'],
+    },
+  },
   {
     name: 'list_node_categories',
     description: 'List all available node categories in n8n (e.g., Communication, Database, AI, Transform, etc.)',
@@ -145,6 +333,18 @@ const tools = [
     },
   },
 
+  // ============================================
+  // INSTANCE TOOLS
+  // ============================================
+  {
+    name: 'list_instances',
+    description: 'List the configured n8n instances (e.g. dev, staging, prod) with their API URL, node database version and which one is the default. Pass the name as `instance` to any other tool to target that instance.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+
   // ============================================
   // WORKFLOW MANAGEMENT TOOLS (from shell script)
   // ============================================
@@ -198,13 +398,17 @@ const tools = [
           type: 'boolean',
           description: 'true to activate, false to deactivate',
         },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow as you last read it (from get_workflow or list_workflows). The write is refused with a conflict error, listing the remote changes, if the workflow was modified since',
+        },
       },
       required: ['workflowId', 'active'],
     },
   },
   {
     name: 'execute_workflow',
-    description: 'Manually execute a workflow',
+    description: 'Manually execute a workflow (uses workflows/{id}/execute, which most n8n versions do not expose in the public API; prefer test_workflow for workflows with a Webhook or Form trigger)',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -216,9 +420,81 @@ const tools = [
       required: ['workflowId'],
     },
   },
+  {
+    name: 'test_workflow',
+    description: 'Run a workflow through its Webhook or Form trigger: sends a JSON payload (or a named fixture from N8N_FIXTURES_DIR) to the trigger URL built from the instance base URL and the node\'s path/method, waits for the execution it starts, and returns the webhook response and the execution\'s per-node summary.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'The workflow ID to test',
+        },
+        payload: {
+          type: 'object',
+          description: 'JSON body to send (sent as query parameters for GET webhooks)',
+        },
+        fixture: {
+          type: 'string',
+          description: 'Name of a JSON fixture file in the fixtures directory to send instead of payload',
+        },
+        triggerNode: {
+          type: 'string',
+          description: 'Trigger node to call when the workflow has several Webhook/Form triggers',
+        },
+        mode: {
+          type: 'string',
+          enum: ['production', 'test'],
+          description: '"production" calls /webhook/<path> and needs an active workflow; "test" calls /webhook-test/<path>, which only answers while the editor is listening for a test event (default: production)',
+          default: 'production',
+        },
+        method: {
+          type: 'string',
+          description: 'HTTP method to use instead of the node\'s',
+        },
+        query: {
+          type: 'object',
+          description: 'Query parameters to add to the trigger URL',
+        },
+        headers: {
+          type: 'object',
+          description: 'Extra request headers, e.g. for webhooks with header authentication',
+        },
+        timeoutMs: {
+          type: 'number',
+          description: 'How long to wait for the trigger response and for the execution to finish, each (default: 60000)',
+          default: 60000,
+        },
+      },
+      required: ['workflowId'],
+    },
+  },
+  {
+    name: 'run_workflow_tests',
+    description: 'Run workflow regression tests from YAML/JSON files: each test sends a payload (or fixture) to a workflow\'s Webhook/Form trigger and asserts on the execution status, which nodes ran, and JSONPath checks on node outputs. Returns pass/fail per test as JSON or JUnit XML. Run before promote_workflow.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Test file or directory inside the server tests directory (N8N_WORKFLOW_TESTS_DIR, default ./workflow-tests); defaults to that directory itself',
+        },
+        filter: {
+          type: 'string',
+          description: 'Only run tests whose name contains this text',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'junit'],
+          description: 'Report format (default: json)',
+          default: 'json',
+        },
+      },
+    },
+  },
   {
     name: 'get_executions',
-    description: 'Get recent execution history for a workflow or all workflows',
+    description: 'Get execution history for a workflow or all workflows, newest first, filtered by status and start date. Returns a nextCursor; pass it as cursor to get the next page.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -226,11 +502,64 @@ const tools = [
           type: 'string',
           description: 'Optional workflow ID to filter executions',
         },
+        status: {
+          type: 'string',
+          enum: ['error', 'success', 'waiting', 'running', 'canceled'],
+          description: 'Only executions with this status',
+        },
+        startedAfter: {
+          type: 'string',
+          description: 'Only executions started at or after this ISO date (e.g. 2025-01-01T00:00:00Z)',
+        },
+        startedBefore: {
+          type: 'string',
+          description: 'Only executions started before this ISO date',
+        },
         limit: {
           type: 'number',
-          description: 'Number of executions to return (default: 10)',
+          description: 'Number of executions per page (default: 10, max: 250). Pages can be shorter when a date range is set.',
           default: 10,
         },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_execution_stats',
+    description: 'Aggregate executions per workflow over a time window: counts by status, success rate, p50/p95 duration, and failure counts by node and error message, compared with the previous window of the same length. Workflows with the most failures come first, e.g. to find workflows that became flaky this week.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'Only this workflow (default: all workflows)',
+        },
+        days: {
+          type: 'number',
+          description: 'Window length in days ending at until (default: 7)',
+          default: 7,
+        },
+        since: {
+          type: 'string',
+          description: 'Start of the window as an ISO date (overrides days)',
+        },
+        until: {
+          type: 'string',
+          description: 'End of the window as an ISO date (default: now)',
+        },
+        compareToPrevious: {
+          type: 'boolean',
+          description: 'Include the previous window\'s success rate and the change (default: true)',
+          default: true,
+        },
+        maxFailureDetails: {
+          type: 'number',
+          description: 'Maximum number of failed executions to load to attribute failures to nodes and messages (default: 100)',
+          default: 100,
+        },
       },
     },
   },
@@ -248,9 +577,122 @@ const tools = [
       required: ['executionId'],
     },
   },
+  {
+    name: 'get_execution_summary',
+    description: 'Summarize an execution per node: status, runs, item counts per output, run time, and the error message and stack trace of the failing node. Use get_execution_node_output to look at the items a node produced.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        executionId: {
+          type: 'string',
+          description: 'The execution ID',
+        },
+      },
+      required: ['executionId'],
+    },
+  },
+  {
+    name: 'get_execution_node_output',
+    description: 'Get the output items of one node in an execution, a page at a time, optionally reduced to a few fields so large payloads do not flood the context. Binary data is reported as metadata only.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        executionId: {
+          type: 'string',
+          description: 'The execution ID',
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name of the node in the workflow',
+        },
+        runIndex: {
+          type: 'number',
+          description: 'Run of the node to inspect, for nodes that ran several times in a loop (default: last run)',
+        },
+        outputIndex: {
+          type: 'number',
+          description: 'Output to read, e.g. 1 for the "false" branch of an If node (default: 0)',
+          default: 0,
+        },
+        offset: {
+          type: 'number',
+          description: 'Index of the first item to return (default: 0)',
+          default: 0,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of items to return (default: 10, max: 100)',
+          default: 10,
+        },
+        fields: {
+          type: 'array',
+          description: 'Dotted paths into each item\'s JSON to return (e.g. ["id", "user.email"]); all fields when omitted',
+          items: {
+            type: 'string',
+          },
+        },
+      },
+      required: ['executionId', 'nodeName'],
+    },
+  },
+  {
+    name: 'diagnose_execution',
+    description: 'Diagnose a failed execution: finds the failing node and returns its error together with the node\'s parameters, its schema from the node database (visible parameters and required credentials), the input items it received, and matching known error patterns (expression errors, missing credentials, HTTP 4xx/5xx, connection errors, type mismatches) with suggested fixes.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        executionId: {
+          type: 'string',
+          description: 'The ID of the failed execution',
+        },
+        inputLimit: {
+          type: 'number',
+          description: 'Maximum number of input items to include per upstream node (default: 5, max: 100)',
+          default: 5,
+        },
+      },
+      required: ['executionId'],
+    },
+  },
+  {
+    name: 'scaffold_workflow',
+    description: 'Build complete workflow JSON from a high-level spec instead of writing it by hand. Node types are resolved from the node database (full type, short name, display name or a keyword), each node gets its latest typeVersion, default parameter values for the given resource/operation, a generated ID and a position, and the connections map is generated from the step order and branches. Returns the workflow with validation results; pass create: true to create it right away.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Workflow name',
+        },
+        trigger: {
+          type: 'object',
+          description: 'Trigger step, e.g. {"node": "webhook", "parameters": {"httpMethod": "POST"}} or {"node": "schedule"}',
+        },
+        steps: {
+          type: 'array',
+          description: 'Steps after the trigger, in order. Each step: ' +
+            '{node, name?, resource?, operation?, parameters?, branches?: {<output index or name>: [steps]}, subNodes?: [{node, connectionType?, ...}]}. ' +
+            'A step with branches must be the last of its list, e.g. {"node": "if", "branches": {"true": [...], "false": [...]}}.',
+          items: {
+            type: 'object',
+          },
+        },
+        settings: {
+          type: 'object',
+          description: 'Workflow settings (default: {"executionOrder": "v1"})',
+        },
+        create: {
+          type: 'boolean',
+          description: 'Create the workflow in n8n (binding existing credentials) instead of only returning it (default: false)',
+          default: false,
+        },
+      },
+      required: ['name', 'trigger'],
+    },
+  },
   {
     name: 'create_workflow',
-    description: 'Create a new workflow in n8n',
+    description: 'Create a new workflow in n8n. The connection graph is checked first (dangling connections, invalid output indexes) and the workflow is rejected if it has errors.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -273,13 +715,28 @@ const tools = [
           type: 'object',
           description: 'Optional workflow settings',
         },
+        skipPreflight: {
+          type: 'boolean',
+          description: 'Skip the connection graph pre-flight check (default: false)',
+          default: false,
+        },
+        bindCredentials: {
+          type: 'boolean',
+          description: 'Fill missing node credentials with existing credentials of the required type when exactly one exists (default: true); the bindings are reported in the response',
+          default: true,
+        },
+        layout: {
+          type: 'boolean',
+          description: 'Replace node positions with an automatic left-to-right layout from the connections (default: true)',
+          default: true,
+        },
       },
       required: ['name', 'nodes', 'connections'],
     },
   },
   {
     name: 'update_workflow',
-    description: 'Update an existing workflow',
+    description: 'Update an existing workflow. The connection graph is checked first (dangling connections, invalid output indexes) and the update is rejected if it has errors. Review the change with diff_workflows (from the workflow ID to the proposed JSON) before updating.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -306,41 +763,831 @@ const tools = [
           type: 'object',
           description: 'Optional workflow settings',
         },
+        skipPreflight: {
+          type: 'boolean',
+          description: 'Skip the connection graph pre-flight check (default: false)',
+          default: false,
+        },
+        bindCredentials: {
+          type: 'boolean',
+          description: 'Fill missing node credentials with existing credentials of the required type when exactly one exists (default: true); the bindings are reported in the response',
+          default: true,
+        },
+        layout: {
+          type: 'boolean',
+          description: 'Replace node positions with an automatic left-to-right layout from the connections (default: false, keeping the positions given)',
+          default: false,
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow as you last read it (from get_workflow or list_workflows). The write is refused with a conflict error, listing the remote changes, if the workflow was modified since',
+        },
       },
       required: ['workflowId', 'name', 'nodes', 'connections'],
     },
   },
   {
-    name: 'delete_workflow',
-    description: 'Delete a workflow from n8n',
+    name: 'layout_workflow',
+    description: 'Arrange the nodes of a workflow on the canvas from its connections: layers from left to right following the flow, each If/Switch output on its own row so branches do not overlap, AI sub-nodes (models, memory, tools) beneath the agent they attach to. Sticky notes keep their position. Works on a saved workflow (workflowId) or on workflow JSON; returns the nodes with their new positions.',
     inputSchema: {
       type: 'object' as const,
       properties: {
         workflowId: {
           type: 'string',
-          description: 'The workflow ID to delete',
+          description: 'Saved workflow to lay out',
+        },
+        workflow: {
+          type: 'object',
+          description: 'Workflow JSON (nodes and connections) to lay out instead of a saved workflow',
+        },
+        apply: {
+          type: 'boolean',
+          description: 'Save the new positions (workflowId only; default: false)',
+          default: false,
         },
       },
-      required: ['workflowId'],
     },
   },
-];
-
-// Register tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  {
+    name: 'patch_workflow',
+    description: 'Apply partial edits to an existing workflow without resending it in full. The current workflow is fetched, all operations are applied atomically (any failing operation aborts the patch), the result is validated against the node database and connection graph, then saved. Fields not touched by an operation (credentials, webhookId, ...) are preserved.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'The workflow ID to patch',
+        },
+        operations: {
+          type: 'array',
+          description: 'Operations applied in order. Shapes: ' +
+            '{type:"addNode", node:{name, type, typeVersion, parameters?, position?, credentials?}}; ' +
+            '{type:"removeNode", name} (also removes its connections); ' +
+            '{type:"updateNodeParameters", name, path, value} or {..., path, remove:true} where path is like "options.timeout" or "rules.values[0].value"; ' +
+            '{type:"renameNode", name, newName} (connections and expression references are rewritten); ' +
+            '{type:"addConnection", from, to, outputIndex?, inputIndex?, connectionType?}; ' +
+            '{type:"removeConnection", from, to, outputIndex?, inputIndex?, connectionType?}; ' +
+            '{type:"setSetting", key, value} (null value removes the setting)',
+          items: {
+            type: 'object',
+          },
+        },
+        skipValidation: {
+          type: 'boolean',
+          description: 'Save even if validation reports errors (default: false)',
+          default: false,
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow as you last read it (from get_workflow or list_workflows). The write is refused with a conflict error, listing the remote changes, if the workflow was modified since',
+        },
+      },
+      required: ['workflowId', 'operations'],
+    },
+  },
+  {
+    name: 'rename_node',
+    description: 'Rename a node in a saved workflow and update every reference to it: the connections keyed by the node, connection targets, and $(\'Name\'), $node["Name"], $node.Name and $items("Name") in the expressions and Code node scripts of all nodes. Refused if another node already has the new name. Returns every location changed.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'The workflow ID',
+        },
+        name: {
+          type: 'string',
+          description: 'Current node name',
+        },
+        newName: {
+          type: 'string',
+          description: 'New node name',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only report the locations that would change (default: false)',
+          default: false,
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow as you last read it (from get_workflow or list_workflows). The write is refused with a conflict error, listing the remote changes, if the workflow was modified since',
+        },
+      },
+      required: ['workflowId', 'name', 'newName'],
+    },
+  },
+  {
+    name: 'delete_workflow',
+    description: 'Delete a workflow from n8n',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'The workflow ID to delete',
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow as you last read it (from get_workflow or list_workflows). The write is refused with a conflict error, listing the remote changes, if the workflow was modified since',
+        },
+      },
+      required: ['workflowId'],
+    },
+  },
+
+  {
+    name: 'diff_workflows',
+    description: 'Semantic diff between two workflows: live workflows by ID, local snapshots, or proposed workflow JSON. Nodes are matched by ID, so renames are reported as renames. Reports added/removed/renamed nodes, parameter changes with JSON paths, re-wired connections and settings changes; position-only moves are listed separately as cosmetic. Use it with the proposed JSON before update_workflow to review the change.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        from: {
+          type: 'object',
+          description: 'The base side. Provide exactly one of workflowId, snapshotId or workflow',
+          properties: {
+            workflowId: { type: 'string', description: 'Live workflow ID' },
+            snapshotId: { type: 'number', description: 'Local snapshot ID' },
+            workflow: { type: 'object', description: 'Workflow JSON (nodes, connections, optional name/settings)' },
+          },
+        },
+        to: {
+          type: 'object',
+          description: 'The changed side. Provide exactly one of workflowId, snapshotId or workflow',
+          properties: {
+            workflowId: { type: 'string', description: 'Live workflow ID' },
+            snapshotId: { type: 'number', description: 'Local snapshot ID' },
+            workflow: { type: 'object', description: 'Workflow JSON (nodes, connections, optional name/settings)' },
+          },
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
+
+  {
+    name: 'promote_workflow',
+    description: 'Copy a workflow from one n8n instance to another (e.g. dev -> prod, see list_instances). The target workflow is matched by a stored mapping from earlier promotions or by name (or given as targetWorkflowId); credential IDs are remapped to target credentials with the same name and type; Execute Workflow sub-workflow IDs and the error workflow are remapped by mapping or name; the target keeps its active state. Runs as a dry run by default, returning the diff and all remappings; pass dryRun: false to apply.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'The workflow ID on the source instance (`instance`, or the default instance)',
+        },
+        targetInstance: {
+          type: 'string',
+          description: 'Instance to promote to',
+        },
+        targetWorkflowId: {
+          type: 'string',
+          description: 'Workflow on the target instance to overwrite, instead of matching by mapping or name',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only return the planned changes (default: true)',
+          default: true,
+        },
+        force: {
+          type: 'boolean',
+          description: 'Apply even if some credentials or sub-workflows could not be mapped (default: false)',
+          default: false,
+        },
+      },
+      required: ['workflowId', 'targetInstance'],
+    },
+  },
+
+  // ============================================
+  // WORKFLOW HISTORY TOOLS
+  // ============================================
+  {
+    name: 'list_workflow_snapshots',
+    description: 'List local snapshots of a workflow. A snapshot of the full workflow JSON is recorded automatically before every update, toggle, delete and restore made through this server.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'The workflow ID',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of snapshots to return (default: 50)',
+          default: 50,
+        },
+      },
+      required: ['workflowId'],
+    },
+  },
+  {
+    name: 'diff_workflow_snapshots',
+    description: 'Show what changed between two snapshots of a workflow, or between a snapshot and the current live workflow when toSnapshotId is omitted',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        fromSnapshotId: {
+          type: 'number',
+          description: 'The older snapshot ID',
+        },
+        toSnapshotId: {
+          type: 'number',
+          description: 'The newer snapshot ID. Omit to compare against the live workflow',
+        },
+      },
+      required: ['fromSnapshotId'],
+    },
+  },
+  {
+    name: 'restore_workflow_snapshot',
+    description: 'Restore a workflow to a snapshot. Updates the workflow if it exists (recording a snapshot of the current state first) or re-creates it if it was deleted; re-created workflows get a new ID.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        snapshotId: {
+          type: 'number',
+          description: 'The snapshot ID to restore',
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow as you last read it (from get_workflow or list_workflows). The write is refused with a conflict error, listing the remote changes, if the workflow was modified since',
+        },
+      },
+      required: ['snapshotId'],
+    },
+  },
+
+  // ============================================
+  // WORKFLOW SYNC TOOLS (git-friendly export/import)
+  // ============================================
+  {
+    name: 'export_workflows',
+    description: 'Export every workflow to a directory on the server, one normalized JSON file per workflow (keys sorted, nodes sorted by name, volatile fields like versionId, timestamps and active removed) so the directory can be committed and reviewed in git',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        dir: {
+          type: 'string',
+          description: 'Subdirectory of the server workflows directory (N8N_WORKFLOWS_DIR, default ./workflows); defaults to that directory itself',
+        },
+        prune: {
+          type: 'boolean',
+          description: 'Delete files for workflows that no longer exist on the instance (default: false)',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'import_workflows',
+    description: 'Import a directory of workflow files: files are matched to existing workflows by ID, then by name, and updated when they differ; files without a match are created (and rewritten with the new ID). Use dryRun to preview.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        dir: {
+          type: 'string',
+          description: 'Subdirectory of the server workflows directory (N8N_WORKFLOWS_DIR, default ./workflows); defaults to that directory itself',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only report what would be created or updated (default: false)',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'workflow_sync_status',
+    description: 'Show which workflow files in a directory differ from the instance: modified, only local, or only on the instance (with a change summary per modified file)',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        dir: {
+          type: 'string',
+          description: 'Subdirectory of the server workflows directory (N8N_WORKFLOWS_DIR, default ./workflows); defaults to that directory itself',
+        },
+      },
+    },
+  },
+
+  // ============================================
+  // WORKFLOW TEMPLATE TOOLS (local templates database)
+  // ============================================
+  {
+    name: 'search_templates',
+    description: 'Search the local workflow template library (built with npm run build-templates from exported workflows) by keywords and/or the node types a template uses. Returns template IDs, names, descriptions, node types and the placeholders to fill; use get_template for the workflow JSON.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Keywords matched against template name, tags, description and sticky notes (e.g. "slack alert")',
+        },
+        nodeTypes: {
+          type: 'array',
+          description: 'Node types the template must all use, full or short (e.g. ["slack", "n8n-nodes-base.webhook"])',
+          items: {
+            type: 'string',
+          },
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 10)',
+          default: 10,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_template',
+    description: 'Get a workflow template with its workflow JSON and the <<placeholder>> names that must be filled when creating a workflow from it',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        templateId: {
+          type: 'string',
+          description: 'Template ID from search_templates',
+        },
+      },
+      required: ['templateId'],
+    },
+  },
+  {
+    name: 'create_workflow_from_template',
+    description: 'Create a new workflow from a template: <<placeholder>> markers are replaced with the given values, node and webhook IDs are regenerated, existing credentials are bound and the connection graph is checked before saving. All placeholders need a value.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        templateId: {
+          type: 'string',
+          description: 'Template ID from search_templates',
+        },
+        name: {
+          type: 'string',
+          description: 'Name of the new workflow (default: the template name)',
+        },
+        values: {
+          type: 'object',
+          description: 'Placeholder values, e.g. {"slackChannel": "#alerts"}. A parameter that is only a placeholder takes the value as-is (number, boolean, object)',
+        },
+        bindCredentials: {
+          type: 'boolean',
+          description: 'Fill node credentials with existing credentials of the required type when exactly one exists (default: true)',
+          default: true,
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the workflow JSON without creating it (default: false)',
+          default: false,
+        },
+      },
+      required: ['templateId'],
+    },
+  },
+
+  // ============================================
+  // CREDENTIAL TOOLS (metadata only, never secrets)
+  // ============================================
+  {
+    name: 'list_credentials',
+    description: 'List the credentials that exist on the instance (ID, name, type and dates; credential data is never returned). Use the ID and name in a node\'s credentials block: {"<credentialType>": {"id": "...", "name": "..."}}. get_node_info lists which credential types a node needs.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        type: {
+          type: 'string',
+          description: 'Only credentials of this type (e.g. slackApi)',
+        },
+        search: {
+          type: 'string',
+          description: 'Only credentials whose name contains this text',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_credential_schema',
+    description: 'Get the fields of a credential type (JSON schema from the n8n API) and the existing credentials of that type',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        credentialType: {
+          type: 'string',
+          description: 'Credential type name, e.g. slackApi or httpHeaderAuth',
+        },
+      },
+      required: ['credentialType'],
+    },
+  },
+  {
+    name: 'bind_credentials',
+    description: 'Bind existing credentials to the nodes of a workflow: for each credential type a node needs (given its authentication parameters), use the only credential of that type, or the preferred name when there are several; references to credential IDs that do not exist on the instance are re-pointed by name. Works on a saved workflow (workflowId) or on workflow JSON; returns the bindings and the updated nodes.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'Saved workflow to bind',
+        },
+        workflow: {
+          type: 'object',
+          description: 'Workflow JSON (nodes required) to bind instead of a saved workflow',
+        },
+        preferred: {
+          type: 'object',
+          description: 'Credential name to use per credential type when several exist, e.g. {"slackApi": "Slack Prod"}',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace credentials already set on nodes (default: false)',
+          default: false,
+        },
+        apply: {
+          type: 'boolean',
+          description: 'Save the bound workflow (workflowId only; default: false)',
+          default: false,
+        },
+      },
+    },
+  },
+
+  // ============================================
+  // WORKFLOW VALIDATION TOOLS
+  // ============================================
+  {
+    name: 'validate_workflow',
+    description: 'Validate a workflow definition offline against the node database before sending it to n8n. Checks unknown node types, unsupported typeVersions, missing required parameters, invalid option values, parameters hidden by displayOptions and expressions (syntax errors, references to nodes that do not exist or are not upstream, deprecated $node/$items syntax). Returns structured errors with node name, parameter path and a suggested fix.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Workflow name',
+        },
+        nodes: {
+          type: 'array',
+          description: 'Array of workflow nodes',
+          items: {
+            type: 'object',
+          },
+        },
+        connections: {
+          type: 'object',
+          description: 'Node connections configuration',
+        },
+      },
+      required: ['nodes'],
+    },
+  },
+  {
+    name: 'analyze_workflow_graph',
+    description: 'Analyze the connection graph of a workflow definition: dangling connections to non-existent nodes, nodes not reachable from any trigger, cycles, missing trigger nodes and invalid output indexes for multi-output nodes like If/Switch. Runs automatically before create_workflow and update_workflow.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        nodes: {
+          type: 'array',
+          description: 'Array of workflow nodes',
+          items: {
+            type: 'object',
+          },
+        },
+        connections: {
+          type: 'object',
+          description: 'Node connections configuration',
+        },
+      },
+      required: ['nodes', 'connections'],
+    },
+  },
+];
+
+// Every tool except list_instances can target a specific instance
+for (const tool of tools) {
+  if (tool.name === 'list_instances') continue;
+  (tool.inputSchema.properties as any).instance = {
+    type: 'string',
+    description: 'n8n instance profile to use (see list_instances). Defaults to the default instance',
+  };
+}
+
+/**
+ * Create an MCP server with all tools registered. Stdio mode uses one; http
+ * mode creates one per session, all sharing the services above.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'n8n-unified-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+
+  return server;
+}
+
+async function callTool(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
 
-  try {
-    // Node documentation tools
-    if (name === 'search_n8n_nodes') {
-      const result = await nodeService.searchNodes(
-        (args as any).keyword,
-        (args as any).limit || 10
+  try {
+    if (name === 'list_instances') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(instances.list(), null, 2),
+          },
+        ],
+      };
+    }
+
+    const context = instances.get((args as any)?.instance);
+    const { nodeService, workflowService, workflowValidator, graphAnalyzer } = context;
+
+    // Node documentation tools
+    if (name === 'search_n8n_nodes') {
+      const result = await nodeService.searchNodes(
+        (args as any).keyword,
+        (args as any).limit || 10,
+        {
+          category: (args as any).category,
+          packageName: (args as any).package,
+          isTrigger: (args as any).isTrigger,
+          isAiTool: (args as any).isAiTool,
+        }
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_node_info') {
+      const result = await nodeService.getNodeInfo((args as any).nodeType, (args as any).typeVersion);
+      if (!result) {
+        return nodeNotFoundResponse(context, (args as any).nodeType);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_node_operation') {
+      const result = nodeService.getNodeOperation(
+        (args as any).nodeType,
+        (args as any).resource,
+        (args as any).operation,
+        (args as any).typeVersion
+      );
+      if (!result) {
+        return nodeNotFoundResponse(context, (args as any).nodeType);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'diff_node_versions') {
+      const result = nodeService.diffNodeVersions(
+        (args as any).nodeType,
+        (args as any).fromVersion,
+        (args as any).toVersion
+      );
+      if (!result) {
+        return nodeNotFoundResponse(context, (args as any).nodeType);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'list_node_categories') {
+      const result = await nodeService.getCategories();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_nodes_by_category') {
+      const result = await nodeService.getNodesByCategory((args as any).category);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_ai_nodes') {
+      const result = await nodeService.getAINodes();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'fetch_node_catalog_from_github') {
+      const version = (args as any).version || 'master';
+      const result = await nodeService.fetchNodeCatalogFromGitHub(version);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_database_version') {
+      const version = nodeService.getDatabaseVersion();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              databaseVersion: version,
+              databasePath: nodeService.dbPath,
+              note: version 
+                ? `Database contains nodes for n8n ${version}` 
+                : 'No version metadata found in database. Database may be from an older version of n8n-mcp.'
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_n8n_instance_info') {
+      const info = await workflowService.getInstanceInfo();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(info, null, 2),
+          },
+        ],
+      };
+    }
+
+    // Workflow management tools
+    if (name === 'list_workflows') {
+      const result = await workflowService.listWorkflows();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_workflow') {
+      const result = await workflowService.getWorkflow((args as any).workflowId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_workflow_by_name') {
+      const result = await workflowService.getWorkflowByName((args as any).workflowName);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'toggle_workflow') {
+      const result = await workflowService.toggleWorkflow(
+        (args as any).workflowId,
+        (args as any).active,
+        { expectedVersionId: (args as any).expectedVersionId }
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'execute_workflow') {
+      const result = await workflowService.executeWorkflow((args as any).workflowId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'test_workflow') {
+      const tester = new WorkflowTester(workflowService, {
+        baseUrl: getWebhookBaseUrl(context.profile),
+        fixturesDir: process.env.N8N_FIXTURES_DIR,
+      });
+      const { execution, ...result } = await tester.run((args as any).workflowId, {
+        payload: (args as any).payload,
+        fixture: (args as any).fixture,
+        triggerNode: (args as any).triggerNode,
+        mode: (args as any).mode,
+        method: (args as any).method,
+        query: (args as any).query,
+        headers: (args as any).headers,
+        timeoutMs: (args as any).timeoutMs,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'run_workflow_tests') {
+      const tester = new WorkflowTester(workflowService, {
+        baseUrl: getWebhookBaseUrl(context.profile),
+        fixturesDir: process.env.N8N_FIXTURES_DIR,
+      });
+      const runner = new WorkflowTestRunner(workflowService, tester);
+      const result = await runner.runSuite(
+        testsPath(args),
+        { filter: (args as any).filter }
       );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: (args as any).format === 'junit' ? toJUnitXml(result) : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_executions') {
+      const result = await workflowService.getExecutions({
+        workflowId: (args as any).workflowId,
+        status: (args as any).status,
+        startedAfter: (args as any).startedAfter,
+        startedBefore: (args as any).startedBefore,
+        limit: (args as any).limit || 10,
+        cursor: (args as any).cursor,
+      });
       return {
         content: [
           {
@@ -351,8 +1598,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'get_node_info') {
-      const result = await nodeService.getNodeInfo((args as any).nodeType);
+    if (name === 'get_execution_stats') {
+      const stats = new ExecutionStatsService(workflowService);
+      const result = await stats.getStats({
+        workflowId: (args as any).workflowId,
+        days: (args as any).days,
+        since: (args as any).since,
+        until: (args as any).until,
+        compareToPrevious: (args as any).compareToPrevious,
+        maxFailureDetails: (args as any).maxFailureDetails,
+      });
       return {
         content: [
           {
@@ -363,8 +1618,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'list_node_categories') {
-      const result = await nodeService.getCategories();
+    if (name === 'get_execution_details') {
+      const result = await workflowService.getExecutionDetails((args as any).executionId);
       return {
         content: [
           {
@@ -375,8 +1630,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'get_nodes_by_category') {
-      const result = await nodeService.getNodesByCategory((args as any).category);
+    if (name === 'get_execution_summary') {
+      const execution = await workflowService.getExecutionDetails((args as any).executionId, true);
+      const result = summarizeExecution(execution);
       return {
         content: [
           {
@@ -387,8 +1643,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'get_ai_nodes') {
-      const result = await nodeService.getAINodes();
+    if (name === 'get_execution_node_output') {
+      const execution = await workflowService.getExecutionDetails((args as any).executionId, true);
+      const result = getNodeOutput(execution, (args as any).nodeName, {
+        runIndex: (args as any).runIndex,
+        outputIndex: (args as any).outputIndex,
+        offset: (args as any).offset,
+        limit: (args as any).limit,
+        fields: (args as any).fields,
+      });
       return {
         content: [
           {
@@ -399,9 +1662,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'fetch_node_catalog_from_github') {
-      const version = (args as any).version || 'master';
-      const result = await nodeService.fetchNodeCatalogFromGitHub(version);
+    if (name === 'diagnose_execution') {
+      const diagnoser = new ExecutionDiagnoser(workflowService, nodeService);
+      const result = await diagnoser.diagnose((args as any).executionId, {
+        inputLimit: (args as any).inputLimit,
+      });
       return {
         content: [
           {
@@ -412,77 +1677,195 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'get_database_version') {
-      const version = nodeService.getDatabaseVersion();
+    if (name === 'scaffold_workflow') {
+      const scaffolder = new WorkflowScaffolder(nodeService);
+      const scaffold = scaffolder.scaffold({
+        name: (args as any).name,
+        trigger: (args as any).trigger,
+        steps: (args as any).steps,
+        settings: (args as any).settings,
+      });
+      const validation = workflowValidator.validate(scaffold.workflow);
+      const analysis = graphAnalyzer.analyze(scaffold.workflow);
+      const errors = [...validation.errors, ...analysis.errors];
+
+      let created: any = null;
+      let binding: Awaited<ReturnType<typeof bindWorkflowCredentials>> | null = null;
+      if ((args as any).create) {
+        if (errors.length > 0) {
+          throw new Error(`Scaffolded workflow has validation errors and was not created:\n${errors.map(e => `- ${e.node ? `${e.node}: ` : ''}${e.message}`).join('\n')}`);
+        }
+        binding = await bindWorkflowCredentials(context, scaffold.workflow);
+        created = await workflowService.createWorkflow(scaffold.workflow);
+      }
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              databaseVersion: version,
-              databasePath: process.env.N8N_MCP_DB_PATH || '../n8n-mcp/data/nodes.db',
-              note: version 
-                ? `Database contains nodes for n8n ${version}` 
-                : 'No version metadata found in database. Database may be from an older version of n8n-mcp.'
+              nodes: scaffold.nodes,
+              warnings: scaffold.warnings,
+              validation: {
+                valid: errors.length === 0,
+                errors,
+                warnings: [...validation.warnings, ...analysis.warnings],
+              },
+              ...(created ? { created: { id: created.id, name: created.name }, credentialBindings: [], ...credentialBindingFields(binding) } : {}),
+              workflow: created ?? scaffold.workflow,
             }, null, 2),
           },
         ],
       };
     }
 
-    if (name === 'get_n8n_instance_info') {
-      const info = await workflowService.getInstanceInfo();
+    if (name === 'create_workflow') {
+      const workflow: WorkflowData = {
+        name: (args as any).name,
+        nodes: (args as any).nodes,
+        connections: (args as any).connections,
+        settings: (args as any).settings,
+      };
+      if ((args as any).layout !== false) {
+        workflow.nodes = layoutWorkflow(workflow).workflow.nodes;
+      }
+      const binding = (args as any).bindCredentials === false ? null : await bindWorkflowCredentials(context, workflow);
+      const warnings = (args as any).skipPreflight ? [] : runPreflight(context, workflow);
+      const result = await workflowService.createWorkflow(workflow);
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(info, null, 2),
+            text: JSON.stringify(result, null, 2),
           },
+          ...(warnings.length > 0 ? [{
+            type: 'text',
+            text: JSON.stringify({ preflightWarnings: warnings }, null, 2),
+          }] : []),
+          ...(binding && (binding.bindings.length > 0 || binding.warning) ? [{
+            type: 'text',
+            text: JSON.stringify(credentialBindingFields(binding), null, 2),
+          }] : []),
         ],
       };
     }
 
-    // Workflow management tools
-    if (name === 'list_workflows') {
-      const result = await workflowService.listWorkflows();
+    if (name === 'update_workflow') {
+      const workflow: WorkflowData = {
+        name: (args as any).name,
+        nodes: (args as any).nodes,
+        connections: (args as any).connections,
+        settings: (args as any).settings,
+      };
+      if ((args as any).layout) {
+        workflow.nodes = layoutWorkflow(workflow).workflow.nodes;
+      }
+      const binding = (args as any).bindCredentials === false ? null : await bindWorkflowCredentials(context, workflow);
+      const warnings = (args as any).skipPreflight ? [] : runPreflight(context, workflow);
+      const result = await workflowService.updateWorkflow(
+        (args as any).workflowId,
+        workflow,
+        { expectedVersionId: (args as any).expectedVersionId }
+      );
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify(result, null, 2),
           },
+          ...(warnings.length > 0 ? [{
+            type: 'text',
+            text: JSON.stringify({ preflightWarnings: warnings }, null, 2),
+          }] : []),
+          ...(binding && (binding.bindings.length > 0 || binding.warning) ? [{
+            type: 'text',
+            text: JSON.stringify(credentialBindingFields(binding), null, 2),
+          }] : []),
         ],
       };
     }
 
-    if (name === 'get_workflow') {
-      const result = await workflowService.getWorkflow((args as any).workflowId);
+    if (name === 'layout_workflow') {
+      const workflowId = (args as any).workflowId;
+      if (!workflowId === !(args as any).workflow) {
+        throw new Error('Pass either workflowId or workflow');
+      }
+      const current: any = workflowId ? await workflowService.getWorkflow(workflowId) : (args as any).workflow;
+      const { workflow, moved } = layoutWorkflow(current);
+      const saved = workflowId && (args as any).apply && moved.length > 0
+        ? await workflowService.updateWorkflow(workflowId, toWorkflowData(workflow), { expectedVersionId: current.versionId })
+        : null;
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify({
+              moved,
+              applied: Boolean(saved),
+              nodes: workflow.nodes,
+            }, null, 2),
           },
         ],
       };
     }
 
-    if (name === 'get_workflow_by_name') {
-      const result = await workflowService.getWorkflowByName((args as any).workflowName);
+    if (name === 'patch_workflow') {
+      const workflowId = (args as any).workflowId;
+      const current: any = await workflowService.getWorkflow(workflowId);
+      const patched = toWorkflowData(applyWorkflowPatch(current, (args as any).operations));
+      const warnings = (args as any).skipValidation ? [] : runValidation(context, patched);
+      // Without an explicit expectedVersionId, still guard against changes made while patching
+      const result = await workflowService.updateWorkflow(workflowId, patched, {
+        expectedVersionId: (args as any).expectedVersionId ?? current.versionId,
+      });
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify({
+              appliedOperations: (args as any).operations.length,
+              changes: diffWorkflows(current, patched).summary,
+              workflow: result,
+            }, null, 2),
           },
+          ...(warnings.length > 0 ? [{
+            type: 'text',
+            text: JSON.stringify({ validationWarnings: warnings }, null, 2),
+          }] : []),
         ],
       };
     }
 
-    if (name === 'toggle_workflow') {
-      const result = await workflowService.toggleWorkflow(
+    if (name === 'rename_node') {
+      const workflowId = (args as any).workflowId;
+      const current: any = await workflowService.getWorkflow(workflowId);
+      const renamed = structuredClone(current);
+      const changes = renameNodeInWorkflow(renamed, (args as any).name, (args as any).newName);
+      const result: any = (args as any).dryRun || changes.length === 0
+        ? null
+        : await workflowService.updateWorkflow(workflowId, toWorkflowData(renamed), {
+          expectedVersionId: (args as any).expectedVersionId ?? current.versionId,
+        });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              from: (args as any).name,
+              to: (args as any).newName,
+              saved: Boolean(result),
+              changes,
+              ...(result ? { workflow: { id: result.id, versionId: result.versionId } } : {}),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'delete_workflow') {
+      const result = await workflowService.deleteWorkflow(
         (args as any).workflowId,
-        (args as any).active
+        { expectedVersionId: (args as any).expectedVersionId }
       );
       return {
         content: [
@@ -494,8 +1877,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'execute_workflow') {
-      const result = await workflowService.executeWorkflow((args as any).workflowId);
+    if (name === 'diff_workflows') {
+      const result = await workflowService.diffWorkflows((args as any).from, (args as any).to);
       return {
         content: [
           {
@@ -506,10 +1889,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'get_executions') {
-      const result = await workflowService.getExecutions(
+    if (name === 'promote_workflow') {
+      const result = await workflowPromoter.promote(
+        context,
+        instances.get((args as any).targetInstance),
         (args as any).workflowId,
-        (args as any).limit || 10
+        {
+          dryRun: (args as any).dryRun,
+          targetWorkflowId: (args as any).targetWorkflowId,
+          force: (args as any).force,
+        }
       );
       return {
         content: [
@@ -521,8 +1910,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'get_execution_details') {
-      const result = await workflowService.getExecutionDetails((args as any).executionId);
+    // Workflow history tools
+    if (name === 'list_workflow_snapshots') {
+      const result = workflowService.listSnapshots(
+        (args as any).workflowId,
+        (args as any).limit || 50
+      );
       return {
         content: [
           {
@@ -533,13 +1926,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'create_workflow') {
-      const result = await workflowService.createWorkflow({
-        name: (args as any).name,
-        nodes: (args as any).nodes,
-        connections: (args as any).connections,
-        settings: (args as any).settings,
-      });
+    if (name === 'diff_workflow_snapshots') {
+      const result = await workflowService.diffSnapshots(
+        (args as any).fromSnapshotId,
+        (args as any).toSnapshotId
+      );
       return {
         content: [
           {
@@ -550,15 +1941,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'update_workflow') {
-      const result = await workflowService.updateWorkflow(
-        (args as any).workflowId,
-        {
-          name: (args as any).name,
-          nodes: (args as any).nodes,
-          connections: (args as any).connections,
-          settings: (args as any).settings,
-        }
+    if (name === 'restore_workflow_snapshot') {
+      const result = await workflowService.restoreSnapshot(
+        (args as any).snapshotId,
+        { expectedVersionId: (args as any).expectedVersionId }
       );
       return {
         content: [
@@ -570,8 +1956,193 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (name === 'delete_workflow') {
-      const result = await workflowService.deleteWorkflow((args as any).workflowId);
+    // Workflow sync tools
+    if (name === 'export_workflows') {
+      const sync = new WorkflowSyncService(workflowService);
+      const result = await sync.exportWorkflows(syncDir(args), { prune: (args as any).prune });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'import_workflows') {
+      const sync = new WorkflowSyncService(workflowService);
+      const result = await sync.importWorkflows(syncDir(args), { dryRun: (args as any).dryRun });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'workflow_sync_status') {
+      const sync = new WorkflowSyncService(workflowService);
+      const result = await sync.status(syncDir(args));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    // Workflow template tools
+    if (name === 'search_templates') {
+      // Accept short node types ("slack") like the node documentation tools
+      const nodeTypes = ((args as any).nodeTypes || []).map((t: string) => nodeService.resolveNodeType(t).workflowNodeType ?? t);
+      const templates = templateService.search({
+        query: (args as any).query,
+        nodeTypes,
+        limit: (args as any).limit,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ count: templates.length, templates }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_template') {
+      const template = templateService.get((args as any).templateId);
+      if (!template) {
+        throw new Error(`Template not found: ${(args as any).templateId}. Use search_templates to find templates`);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(template, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'create_workflow_from_template') {
+      const template = templateService.get((args as any).templateId);
+      if (!template) {
+        throw new Error(`Template not found: ${(args as any).templateId}. Use search_templates to find templates`);
+      }
+      const workflow: WorkflowData = instantiateTemplate(template, (args as any).name || template.name, (args as any).values);
+      // Hand-written template files may leave positions out
+      if (workflow.nodes.some((n: any) => !Array.isArray(n.position))) {
+        workflow.nodes = layoutWorkflow(workflow).workflow.nodes;
+      }
+      const binding = (args as any).bindCredentials === false ? null : await bindWorkflowCredentials(context, workflow);
+      const warnings = runPreflight(context, workflow);
+      const result: any = (args as any).dryRun ? null : await workflowService.createWorkflow(workflow);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              template: { id: template.id, name: template.name },
+              created: result ? { id: result.id, name: result.name } : null,
+              ...credentialBindingFields(binding),
+              ...(warnings.length > 0 ? { preflightWarnings: warnings } : {}),
+              workflow: result ?? workflow,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'list_credentials') {
+      const type = (args as any).type;
+      const search = (args as any).search?.toLowerCase();
+      const credentials = (await workflowService.listCredentials())
+        .filter(c => !type || c.type === type)
+        .filter(c => !search || String(c.name).toLowerCase().includes(search));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ count: credentials.length, credentials }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_credential_schema') {
+      const credentialType = (args as any).credentialType;
+      const schema = await workflowService.getCredentialSchema(credentialType);
+      const existing = (await workflowService.listCredentials()).filter(c => c.type === credentialType);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              credentialType,
+              schema,
+              existingCredentials: existing.map(c => ({ id: c.id, name: c.name })),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'bind_credentials') {
+      const workflowId = (args as any).workflowId;
+      if (!workflowId === !(args as any).workflow) {
+        throw new Error('Pass either workflowId or workflow');
+      }
+      const current: any = workflowId ? await workflowService.getWorkflow(workflowId) : (args as any).workflow;
+      const binder = new CredentialBinder(workflowService, nodeService);
+      const result = await binder.bind(current, {
+        preferred: (args as any).preferred,
+        overwrite: (args as any).overwrite,
+      });
+      const saved = workflowId && (args as any).apply && result.summary.bound > 0
+        ? await workflowService.updateWorkflow(workflowId, toWorkflowData(result.workflow), { expectedVersionId: current.versionId })
+        : null;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              summary: result.summary,
+              bindings: result.bindings,
+              applied: Boolean(saved),
+              nodes: result.workflow.nodes,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'validate_workflow') {
+      const result = workflowValidator.validate({
+        name: (args as any).name,
+        nodes: (args as any).nodes,
+        connections: (args as any).connections,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (name === 'analyze_workflow_graph') {
+      const result = graphAnalyzer.analyze({
+        nodes: (args as any).nodes,
+        connections: (args as any).connections,
+      });
       return {
         content: [
           {
@@ -591,18 +2162,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           type: 'text',
           text: JSON.stringify({
             error: error instanceof Error ? error.message : 'Unknown error',
+            ...(error instanceof WorkflowConflictError ? {
+              conflict: {
+                workflowId: error.workflowId,
+                expectedVersionId: error.expectedVersionId,
+                currentVersionId: error.actualVersionId,
+                remoteChanges: error.remoteChanges,
+              },
+            } : {}),
           }),
         },
       ],
       isError: true,
     };
   }
-});
+}
 
 // Start server
 async function main() {
+  const mode = process.env.MCP_MODE || 'stdio';
+
+  if (mode === 'http') {
+    await startHttpServer(createServer, {
+      port: parseInt(process.env.MCP_HTTP_PORT || '3000', 10),
+      host: process.env.MCP_HTTP_HOST || '0.0.0.0',
+      authToken: process.env.MCP_AUTH_TOKEN || '',
+      onShutdown: () => {
+        instances.close();
+        promotionStore.close();
+        templateService.close();
+      },
+    });
+    return;
+  }
+
+  if (mode !== 'stdio') {
+    throw new Error(`Unknown MCP_MODE "${mode}" (expected "stdio" or "http")`);
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   logger.info('n8n Unified MCP server started successfully');
 }
 
@@ -7,6 +7,8 @@ export interface LoadedNode {
   packageName: string;
   nodeName: string;
   NodeClass: any;
+  /** Codex metadata from the node's .node.json file (categories, aliases, resources) */
+  codex?: any;
 }
 
 export class N8nNodeLoader {
@@ -49,7 +51,8 @@ export class N8nNodeLoader {
           
           const NodeClass = nodeModule.default || nodeModule[nodeName] || Object.values(nodeModule)[0];
           if (NodeClass) {
-            nodes.push({ packageName, nodeName, NodeClass });
+            const codex = this.loadCodex(fullPath);
+            nodes.push({ packageName, nodeName, NodeClass, codex });
             console.log(`  ✓ Loaded ${nodeName}`);
           }
         } catch (error) {
@@ -60,4 +63,15 @@ export class N8nNodeLoader {
     
     return nodes;
   }
+
+  /**
+   * Load the codex file that sits next to the compiled node (Slack.node.js -> Slack.node.json)
+   */
+  private loadCodex(nodeFilePath: string): any {
+    try {
+      return require(nodeFilePath.replace(/\.js$/, '.json'));
+    } catch {
+      return undefined;
+    }
+  }
 }
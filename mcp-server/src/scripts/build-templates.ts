@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { WorkflowTemplate, templateKeywords, toTemplates } from '../utils/workflow-template.js';
+
+/**
+ * Build the templates database from exported workflow JSON
+ *
+ *   npm run build-templates -- [directory]
+ *
+ * Every .json file under the directory (default N8N_TEMPLATES_DIR or
+ * ./templates) is read: a single workflow, a list of workflows
+ * (`n8n export:workflow --all`) or an n8n.io template with the workflow under
+ * `workflow`. The database is rebuilt from scratch on each run.
+ */
+
+dotenv.config();
+
+async function build() {
+  const sourceDir = path.resolve(process.cwd(), process.argv[2] || process.env.N8N_TEMPLATES_DIR || './templates');
+  const dbPath = path.resolve(process.cwd(), process.env.N8N_MCP_TEMPLATES_DB_PATH || 'data/templates.db');
+
+  console.log('🔄 Building workflow templates database...\n');
+  console.log(`📂 Source: ${sourceDir}`);
+  console.log(`💾 Database: ${dbPath}\n`);
+
+  if (!fs.existsSync(sourceDir) || !fs.statSync(sourceDir).isDirectory()) {
+    throw new Error(`Template directory not found: ${sourceDir}`);
+  }
+
+  const templates: Array<WorkflowTemplate & { source: string }> = [];
+  let skipped = 0;
+  for (const file of findJsonFiles(sourceDir)) {
+    const source = path.relative(sourceDir, file);
+    try {
+      templates.push(...toTemplates(JSON.parse(fs.readFileSync(file, 'utf8')), source).map(t => ({ ...t, source })));
+    } catch (error) {
+      skipped++;
+      console.log(`⚠️  Skipped ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const ids = new Set<string>();
+  for (const template of templates) {
+    if (ids.has(template.id)) {
+      throw new Error(`Two templates map to the ID "${template.id}"; rename one of the files`);
+    }
+    ids.add(template.id);
+  }
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+
+  db.exec(`
+    DROP TABLE IF EXISTS templates;
+    DROP TABLE IF EXISTS template_nodes;
+    DROP TABLE IF EXISTS templates_fts;
+
+    CREATE TABLE templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      tags TEXT,
+      node_types TEXT,
+      placeholders TEXT,
+      workflow_json TEXT NOT NULL,
+      source TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Which node types each template uses (search_templates nodeTypes filter)
+    CREATE TABLE template_nodes (
+      template_id TEXT NOT NULL,
+      node_type TEXT NOT NULL,
+      PRIMARY KEY (template_id, node_type)
+    );
+    CREATE INDEX idx_template_nodes_type ON template_nodes (node_type);
+
+    CREATE TABLE IF NOT EXISTS metadata (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    );
+
+    -- Full-text index used by search_templates (BM25 ranking, prefix matching)
+    CREATE VIRTUAL TABLE templates_fts USING fts5(
+      template_id UNINDEXED,
+      name,
+      tags,
+      description,
+      keywords,
+      tokenize = 'porter unicode61'
+    );
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO templates (id, name, description, tags, node_types, placeholders, workflow_json, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertNode = db.prepare('INSERT INTO template_nodes (template_id, node_type) VALUES (?, ?)');
+  const insertFts = db.prepare(`
+    INSERT INTO templates_fts (template_id, name, tags, description, keywords)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const setMetadata = db.prepare('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)');
+
+  db.transaction(() => {
+    for (const template of templates) {
+      insert.run(
+        template.id,
+        template.name,
+        template.description,
+        JSON.stringify(template.tags),
+        JSON.stringify(template.nodeTypes),
+        JSON.stringify(template.placeholders),
+        JSON.stringify(template.workflow),
+        template.source
+      );
+      for (const nodeType of template.nodeTypes) {
+        insertNode.run(template.id, nodeType);
+      }
+      insertFts.run(template.id, template.name, template.tags.join(' '), template.description, templateKeywords(template));
+      console.log(`✅ ${template.id}: ${template.name} (${template.nodeTypes.length} node types${template.placeholders.length > 0 ? `, placeholders: ${template.placeholders.join(', ')}` : ''})`);
+    }
+    setMetadata.run('source_dir', sourceDir);
+    setMetadata.run('template_count', String(templates.length));
+    setMetadata.run('built_at', new Date().toISOString());
+  })();
+
+  db.close();
+  console.log(`\n📊 ${templates.length} templates indexed${skipped > 0 ? `, ${skipped} files skipped` : ''}`);
+}
+
+function findJsonFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return findJsonFiles(fullPath);
+      return entry.isFile() && entry.name.toLowerCase().endsWith('.json') ? [fullPath] : [];
+    });
+}
+
+build().catch((error) => {
+  console.error('❌ Building templates failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
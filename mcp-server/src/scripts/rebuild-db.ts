@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import Database from 'better-sqlite3';
 import { N8nNodeLoader } from '../loaders/node-loader.js';
+import { buildOperationTree, flattenOperationTree } from '../utils/operation-tree.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -11,7 +12,8 @@ async function rebuild() {
   console.log('🔄 Rebuilding n8n node database for mcp-server...\n');
   console.log(`📌 Target n8n version: ${N8N_VERSION}\n`);
   
-  const dbPath = path.join(process.cwd(), 'data/nodes.db');
+  // Build one database per n8n version when running several instances (see instances.example.json)
+  const dbPath = path.resolve(process.cwd(), process.env.N8N_MCP_DB_PATH || 'data/nodes.db');
   const dbDir = path.dirname(dbPath);
   
   // Ensure data directory exists
@@ -22,17 +24,23 @@ async function rebuild() {
   // Create database
   const db = new Database(dbPath);
   
-  // Create schema
+  // Recreate schema so columns added in newer versions are always present
   db.exec(`
-    CREATE TABLE IF NOT EXISTS nodes (
+    DROP TABLE IF EXISTS nodes;
+    DROP TABLE IF EXISTS node_versions;
+    DROP TABLE IF EXISTS nodes_fts;
+
+    CREATE TABLE nodes (
       node_type TEXT PRIMARY KEY,
       package_name TEXT,
       display_name TEXT,
+      aliases TEXT,
       description TEXT,
       category TEXT,
       documentation TEXT,
       properties_schema TEXT,
       operations TEXT,
+      operation_tree TEXT,
       credentials_required TEXT,
       outputs TEXT,
       output_names TEXT,
@@ -49,10 +57,34 @@ async function rebuild() {
       tool_variant_of TEXT
     );
     
+    -- Per-typeVersion schemas for VersionedNodeType nodes (nodes holds the default version)
+    CREATE TABLE node_versions (
+      node_type TEXT NOT NULL,
+      version REAL NOT NULL,
+      properties_schema TEXT,
+      operation_tree TEXT,
+      credentials_required TEXT,
+      outputs TEXT,
+      output_names TEXT,
+      PRIMARY KEY (node_type, version)
+    );
+    
     CREATE TABLE IF NOT EXISTS metadata (
       key TEXT PRIMARY KEY,
       value TEXT
     );
+
+    -- Full-text index used by search_n8n_nodes (BM25 ranking, prefix matching)
+    CREATE VIRTUAL TABLE nodes_fts USING fts5(
+      node_type UNINDEXED,
+      display_name,
+      node_name,
+      aliases,
+      description,
+      operations,
+      documentation,
+      tokenize = 'porter unicode61'
+    );
   `);
   
   // Clear existing data
@@ -74,14 +106,29 @@ async function rebuild() {
   // Insert nodes with full data
   const insert = db.prepare(`
     INSERT OR REPLACE INTO nodes (
-      node_type, package_name, display_name, description, category,
-      documentation, properties_schema, operations, credentials_required,
-      is_versioned, version, development_style, is_trigger, is_webhook
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      node_type, package_name, display_name, aliases, description, category,
+      documentation, properties_schema, operations, operation_tree, credentials_required,
+      outputs, output_names, is_versioned, version, development_style,
+      is_trigger, is_webhook
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  const insertVersion = db.prepare(`
+    INSERT OR REPLACE INTO node_versions (
+      node_type, version, properties_schema, operation_tree, credentials_required,
+      outputs, output_names
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  const insertFts = db.prepare(`
+    INSERT INTO nodes_fts (
+      node_type, display_name, node_name, aliases, description, operations, documentation
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
   
   let successful = 0;
   let docsExtracted = 0;
+  let versionsStored = 0;
   
   for (const node of nodes) {
     try {
@@ -96,19 +143,28 @@ async function rebuild() {
       const version = extractVersion(nodeClass);
       const style = description.routing ? 'declarative' : 'programmatic';
       
+      // Codex metadata comes from the .node.json file, older nodes embed it in the description
+      const codex = node.codex || description.codex;
+      const aliases: string[] = Array.isArray(codex?.alias) ? codex.alias : [];
+      
       // Extract documentation from node description or GitHub
-      const documentation = extractDocumentation(description, nodeType, docsMap);
+      const documentation = extractDocumentation(description, codex, nodeType, docsMap);
       if (documentation) docsExtracted++;
       
       // Extract properties schema
       const properties = description.properties ? JSON.stringify(description.properties) : null;
       
-      // Extract operations if available
-      const operations = extractOperations(description);
+      // Extract resource -> operation -> parameters tree and the flat operation list
+      const operationTree = buildOperationTree(description.properties, latestVersion(version));
+      const operations = operationTree ? JSON.stringify(flattenOperationTree(operationTree)) : null;
       
       // Extract credentials
       const credentials = description.credentials ? JSON.stringify(description.credentials) : null;
       
+      // Extract outputs (array of connection types, or an expression for dynamic outputs)
+      const outputs = description.outputs ? JSON.stringify(description.outputs) : null;
+      const outputNames = description.outputNames ? JSON.stringify(description.outputNames) : null;
+      
       // Detect triggers and webhooks
       const isTrigger = description.polling || description.trigger || category === 'trigger' ? 1 : 0;
       const isWebhook = description.webhook || nodeType.includes('webhook') ? 1 : 0;
@@ -117,12 +173,16 @@ async function rebuild() {
         nodeType,
         node.packageName,
         displayName,
+        aliases.length > 0 ? JSON.stringify(aliases) : null,
         desc,
         category,
         documentation,
         properties,
         operations,
+        operationTree ? JSON.stringify(operationTree) : null,
         credentials,
+        outputs,
+        outputNames,
         isVersioned ? 1 : 0,
         version,
         style,
@@ -130,6 +190,31 @@ async function rebuild() {
         isWebhook
       );
       
+      // Store each version's schema so older typeVersions can be queried
+      for (const { version: typeVersion, description: versionDescription } of getVersionDescriptions(nodeClass)) {
+        const versionTree = buildOperationTree(versionDescription.properties, typeVersion);
+        insertVersion.run(
+          nodeType,
+          typeVersion,
+          versionDescription.properties ? JSON.stringify(versionDescription.properties) : null,
+          versionTree ? JSON.stringify(versionTree) : null,
+          versionDescription.credentials ? JSON.stringify(versionDescription.credentials) : null,
+          versionDescription.outputs ? JSON.stringify(versionDescription.outputs) : null,
+          versionDescription.outputNames ? JSON.stringify(versionDescription.outputNames) : null
+        );
+        versionsStored++;
+      }
+      
+      insertFts.run(
+        nodeType,
+        displayName,
+        splitNodeName(nodeType),
+        aliases.join(' '),
+        desc,
+        extractOperationsText(operations),
+        documentation || ''
+      );
+      
       successful++;
       if (successful % 100 === 0) {
         console.log(`  Processed ${successful} nodes...`);
@@ -150,6 +235,7 @@ async function rebuild() {
   
   console.log(`\n✅ Successfully processed ${successful}/${nodes.length} nodes`);
   console.log(`📖 Extracted documentation for ${docsExtracted} nodes`);
+  console.log(`🔢 Stored ${versionsStored} per-version schemas`);
   console.log(`📊 Database saved to: ${dbPath}`);
   console.log(`📌 Version: ${versionNumber}\n`);
   
@@ -158,22 +244,39 @@ async function rebuild() {
 
 function getNodeDescription(nodeClass: any): any {
   try {
-    if (nodeClass.nodeVersions || typeof nodeClass.getNodeType === 'function') {
-      const instance = new nodeClass();
-      return instance.description || instance.baseDescription || {};
-    }
+    const instance = typeof nodeClass === 'function' ? new nodeClass() : nodeClass;
     
-    if (typeof nodeClass === 'function') {
-      const instance = new nodeClass();
-      return instance.description || {};
+    // VersionedNodeType: the base description has no properties, use the default version's
+    if (instance.nodeVersions) {
+      const base = instance.description || instance.baseDescription || {};
+      const defaultVersion = base.defaultVersion ?? Math.max(...Object.keys(instance.nodeVersions).map(Number));
+      return { ...base, ...(instance.nodeVersions[defaultVersion]?.description || {}) };
     }
     
-    return nodeClass.description || {};
+    return instance.description || {};
   } catch {
     return {};
   }
 }
 
+/**
+ * One description per typeVersion for VersionedNodeType classes
+ */
+function getVersionDescriptions(nodeClass: any): Array<{ version: number; description: any }> {
+  try {
+    const instance = new nodeClass();
+    if (!instance.nodeVersions) return [];
+    
+    const base = instance.description || instance.baseDescription || {};
+    return Object.entries<any>(instance.nodeVersions).map(([version, versionNode]) => ({
+      version: Number(version),
+      description: { ...base, ...(versionNode?.description || {}) },
+    }));
+  } catch {
+    return [];
+  }
+}
+
 function extractNodeType(description: any, packageName: string): string {
   const name = description.name;
   if (!name) return 'unknown';
@@ -220,23 +323,48 @@ function extractVersion(nodeClass: any): string {
   }
 }
 
-function extractOperations(description: any): string | null {
-  if (!description.properties) return null;
-  
-  // Look for operation/resource fields
-  const operationField = description.properties.find((p: any) => 
-    p.name === 'operation' || p.name === 'resource'
-  );
-  
-  if (!operationField?.options) return null;
+/**
+ * Highest version from the stored version string (JSON array or single number)
+ */
+function latestVersion(version: string): number | undefined {
+  try {
+    const parsed = JSON.parse(version);
+    return Array.isArray(parsed) ? Math.max(...parsed) : Number(parsed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split the name part of a node type into searchable words
+ * (e.g. "nodes-base.httpRequest" -> "httpRequest http request")
+ */
+function splitNodeName(nodeType: string): string {
+  const name = nodeType.split('.').pop() || nodeType;
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return `${name} ${words}`;
+}
+
+/**
+ * Flatten stored operations JSON into plain text for the full-text index
+ */
+function extractOperationsText(operations: string | null): string {
+  if (!operations) return '';
   
-  return JSON.stringify(operationField.options);
+  try {
+    const parsed = JSON.parse(operations);
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((o: any) => [o.resource, o.name, o.value, o.action, o.description].filter(Boolean).join(' '))
+      .join('\n');
+  } catch {
+    return '';
+  }
 }
 
 /**
  * Extract documentation from node description or external sources
  */
-function extractDocumentation(description: any, nodeType: string, githubDocs: Record<string, string>): string | null {
+function extractDocumentation(description: any, codex: any, nodeType: string, githubDocs: Record<string, string>): string | null {
   // Priority 1: GitHub documentation (if available)
   if (githubDocs[nodeType]) {
     return githubDocs[nodeType];
@@ -268,8 +396,8 @@ function extractDocumentation(description: any, nodeType: string, githubDocs: Re
   }
   
   // Add codex data if available
-  if (description.codex) {
-    const codexDoc = buildCodexDocumentation(description.codex);
+  if (codex) {
+    const codexDoc = buildCodexDocumentation(codex);
     if (codexDoc) {
       docParts.push(codexDoc);
     }
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import * as dotenv from 'dotenv';
+import { InstanceRegistry } from '../services/instance-registry.js';
+import { WorkflowSyncService } from '../services/workflow-sync.js';
+
+/**
+ * Export/import workflows to a directory for review in git
+ *
+ *   npm run workflow-sync -- export [dir] [--instance <name>] [--prune]
+ *   npm run workflow-sync -- import [dir] [--instance <name>] [--dry-run]
+ *   npm run workflow-sync -- status [dir] [--instance <name>]
+ *
+ * `status` exits with code 1 when local files and the instance differ.
+ */
+
+dotenv.config();
+
+const USAGE = 'Usage: workflow-sync <export|import|status> [dir] [--instance <name>] [--prune] [--dry-run]';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  const flags = new Set(args.filter(a => a.startsWith('--')));
+  const instanceIndex = args.indexOf('--instance');
+  const instance = instanceIndex >= 0 ? args[instanceIndex + 1] : undefined;
+  const dir = args.slice(1).find((a, i) => !a.startsWith('--') && args[i] !== '--instance') || process.env.N8N_WORKFLOWS_DIR || './workflows';
+
+  if (!['export', 'import', 'status'].includes(command)) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const registry = InstanceRegistry.fromEnvironment();
+  const context = registry.get(instance);
+  const sync = new WorkflowSyncService(context.workflowService);
+  console.log(`🔗 Instance: ${context.profile.name} (${context.profile.apiUrl})`);
+  console.log(`📁 Directory: ${dir}\n`);
+
+  try {
+    if (command === 'export') {
+      const result = await sync.exportWorkflows(dir, { prune: flags.has('--prune') });
+      result.written.forEach(file => console.log(`  ✓ ${file}`));
+      result.removed.forEach(file => console.log(`  🗑  ${file}`));
+      console.log(`\n✅ Exported ${result.workflows} workflows (${result.written.length} written, ${result.unchanged} unchanged, ${result.removed.length} removed)`);
+    }
+
+    if (command === 'import') {
+      const result = await sync.importWorkflows(dir, { dryRun: flags.has('--dry-run') });
+      result.results
+        .filter(r => r.action !== 'unchanged')
+        .forEach(r => console.log(`  ${r.action === 'created' ? '➕' : '✏️ '} ${r.file} → ${r.action}${r.workflowId ? ` (${r.workflowId})` : ''}`));
+      const { created, updated, unchanged } = result.summary;
+      console.log(`\n✅ ${result.dryRun ? 'Dry run: would create' : 'Created'} ${created}, ${result.dryRun ? 'update' : 'updated'} ${updated}, ${unchanged} unchanged`);
+    }
+
+    if (command === 'status') {
+      const result = await sync.status(dir);
+      const icons: Record<string, string> = { 'modified': '✏️ ', 'local-only': '➕', 'remote-only': '☁️ ' };
+      result.entries.forEach(e => console.log(`  ${icons[e.status]} ${e.status.padEnd(11)} ${e.file ?? `"${e.name}" (${e.workflowId})`}`));
+      const { unchanged, modified, localOnly, remoteOnly } = result.summary;
+      console.log(`\n📊 ${unchanged} unchanged, ${modified} modified, ${localOnly} local only, ${remoteOnly} remote only`);
+      if (result.entries.length > 0) {
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    registry.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Workflow sync failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
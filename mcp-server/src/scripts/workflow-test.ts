@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import path from 'path';
+import * as dotenv from 'dotenv';
+import { InstanceRegistry, getWebhookBaseUrl } from '../services/instance-registry.js';
+import { WorkflowTester } from '../services/workflow-tester.js';
+import { WorkflowTestRunner, toJUnitXml } from '../services/workflow-test-runner.js';
+
+/**
+ * Run workflow regression tests (YAML/JSON files) against an instance
+ *
+ *   npm run workflow-test -- [path] [--instance <name>] [--filter <text>] [--junit <file>] [--json <file>]
+ *
+ * Exits with code 1 when a test fails or cannot run.
+ */
+
+dotenv.config();
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const valueFlags = ['--instance', '--filter', '--junit', '--json'];
+  const suitePath = args.find((a, i) => !a.startsWith('--') && !valueFlags.includes(args[i - 1]))
+    || process.env.N8N_WORKFLOW_TESTS_DIR || './workflow-tests';
+
+  const registry = InstanceRegistry.fromEnvironment();
+  try {
+    const context = registry.get(option('--instance'));
+    const tester = new WorkflowTester(context.workflowService, {
+      baseUrl: getWebhookBaseUrl(context.profile),
+      fixturesDir: process.env.N8N_FIXTURES_DIR,
+    });
+    const runner = new WorkflowTestRunner(context.workflowService, tester);
+    console.log(`🔗 Instance: ${context.profile.name} (${context.profile.apiUrl})`);
+    console.log(`🧪 Tests: ${suitePath}\n`);
+
+    const result = await runner.runSuite(suitePath, { filter: option('--filter') });
+
+    for (const test of result.tests) {
+      const icon = test.result === 'passed' ? '✅' : test.result === 'failed' ? '❌' : '💥';
+      console.log(`${icon} ${test.name} (${test.durationMs}ms)${test.executionId ? ` - execution ${test.executionId}` : ''}`);
+      if (test.error) {
+        console.log(`     ${test.error}`);
+      }
+      for (const assertion of test.assertions.filter(a => !a.passed)) {
+        console.log(`     ✗ ${assertion.assertion}: expected ${JSON.stringify(assertion.expected)}, got ${JSON.stringify(assertion.actual)}`);
+      }
+    }
+
+    const junitFile = option('--junit');
+    if (junitFile) {
+      writeReport(junitFile, toJUnitXml(result));
+    }
+    const jsonFile = option('--json');
+    if (jsonFile) {
+      writeReport(jsonFile, JSON.stringify(result, null, 2) + '\n');
+    }
+
+    const { total, passed, failed, errors } = result.summary;
+    console.log(`\n📊 ${passed}/${total} passed, ${failed} failed, ${errors} errors`);
+    if (passed < total) {
+      process.exitCode = 1;
+    }
+  } finally {
+    registry.close();
+  }
+}
+
+function writeReport(file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, content);
+  console.log(`📝 Wrote ${file}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Workflow tests failed to run:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
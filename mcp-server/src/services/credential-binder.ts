@@ -0,0 +1,117 @@
+import { N8nNodeService } from './node-service.js';
+import { N8nWorkflowService } from './workflow-service.js';
+import { isPropertyVisible } from '../utils/display-options.js';
+import { logger } from '../utils/logger.js';
+
+export type CredentialBindingStatus = 'bound' | 'rebound' | 'already-set' | 'missing' | 'ambiguous';
+
+export interface CredentialBinding {
+  node: string;
+  credentialType: string;
+  status: CredentialBindingStatus;
+  credential?: { id: string; name: string };
+  /** Existing credentials of the type, when the choice is ambiguous */
+  candidates?: Array<{ id: string; name: string }>;
+}
+
+export interface BindCredentialsOptions {
+  /** Preferred credential name per credential type, used when several exist */
+  preferred?: Record<string, string>;
+  /** Replace credentials that are already set on nodes (default: false) */
+  overwrite?: boolean;
+}
+
+/**
+ * Fills node credential blocks with existing credentials of the instance. The
+ * credential types a node needs come from the node database (taking the node's
+ * authentication parameters into account); a type is bound when exactly one
+ * credential of that type exists, or when a preferred name picks one.
+ */
+export class CredentialBinder {
+  constructor(
+    private workflowService: N8nWorkflowService,
+    private nodeService: N8nNodeService
+  ) {}
+
+  async bind<T extends { nodes: any[] }>(workflow: T, options: BindCredentialsOptions = {}) {
+    const credentials = await this.workflowService.listCredentials();
+    const nodes = structuredClone(workflow.nodes || []);
+    const bindings: CredentialBinding[] = [];
+
+    for (const node of nodes) {
+      for (const credentialType of this.getCredentialTypes(node)) {
+        bindings.push(bindNode(node, credentialType, credentials, options));
+      }
+    }
+
+    const bound = bindings.filter(b => b.status === 'bound' || b.status === 'rebound').length;
+    logger.info(`Bound ${bound} of ${bindings.length} node credential(s)`);
+    return {
+      workflow: { ...workflow, nodes },
+      bindings,
+      summary: {
+        bound,
+        alreadySet: bindings.filter(b => b.status === 'already-set').length,
+        missing: bindings.filter(b => b.status === 'missing').length,
+        ambiguous: bindings.filter(b => b.status === 'ambiguous').length,
+      },
+    };
+  }
+
+  /**
+   * Credential types the node uses with its current parameters (e.g. only
+   * slackOAuth2Api when authentication is "oAuth2")
+   */
+  private getCredentialTypes(node: any): string[] {
+    let info: any;
+    try {
+      info = this.nodeService.getNodeInfo(node.type, node.typeVersion !== undefined ? Number(node.typeVersion) : undefined);
+    } catch {
+      info = this.nodeService.getNodeInfo(node.type);
+    }
+    if (!info) return [];
+
+    const context = { parameters: node.parameters || {}, properties: info.properties || [], typeVersion: node.typeVersion };
+    return (info.credentials || [])
+      .filter((c: any) => isPropertyVisible(c, context))
+      .map((c: any) => c.name);
+  }
+}
+
+function bindNode(
+  node: any,
+  credentialType: string,
+  credentials: Array<{ id: string; name: string; type: string }>,
+  options: BindCredentialsOptions
+): CredentialBinding {
+  const ofType = credentials.filter(c => c.type === credentialType);
+  const current = node.credentials?.[credentialType];
+
+  if (current && !options.overwrite) {
+    // Keep a reference that resolves; re-point one whose ID does not exist here by name
+    if (ofType.some(c => String(c.id) === String(current.id))) {
+      return { node: node.name, credentialType, status: 'already-set', credential: { id: String(current.id), name: current.name } };
+    }
+    const byName = ofType.filter(c => c.name === current.name);
+    if (byName.length === 1) {
+      node.credentials[credentialType] = { id: byName[0].id, name: byName[0].name };
+      return { node: node.name, credentialType, status: 'rebound', credential: { id: byName[0].id, name: byName[0].name } };
+    }
+  }
+
+  let match: { id: string; name: string } | undefined;
+  const preferred = options.preferred?.[credentialType];
+  if (preferred) {
+    match = ofType.find(c => c.name === preferred);
+  } else if (ofType.length === 1) {
+    match = ofType[0];
+  }
+
+  if (!match) {
+    const candidates = ofType.map(c => ({ id: c.id, name: c.name }));
+    return { node: node.name, credentialType, status: candidates.length > 0 ? 'ambiguous' : 'missing', ...(candidates.length > 0 ? { candidates } : {}) };
+  }
+
+  node.credentials = { ...(node.credentials || {}), [credentialType]: { id: match.id, name: match.name } };
+  return { node: node.name, credentialType, status: current ? 'rebound' : 'bound', credential: { id: match.id, name: match.name } };
+}
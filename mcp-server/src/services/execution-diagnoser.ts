@@ -0,0 +1,274 @@
+import { N8nNodeService } from './node-service.js';
+import { N8nWorkflowService } from './workflow-service.js';
+import { getNodeOutput, getRunData, summarizeExecution } from '../utils/execution-data.js';
+import { NON_VALUE_TYPES, getVisibleProperties, isPropertyVisible } from '../utils/display-options.js';
+import { logger } from '../utils/logger.js';
+
+export type ErrorPatternId =
+  | 'expression-error'
+  | 'missing-credentials'
+  | 'http-auth'
+  | 'http-not-found'
+  | 'http-rate-limit'
+  | 'http-client-error'
+  | 'http-server-error'
+  | 'connection-error'
+  | 'type-mismatch';
+
+export interface ErrorPatternMatch {
+  pattern: ErrorPatternId;
+  explanation: string;
+  suggestion: string;
+  /** Parameters of the failing node related to the pattern (e.g. the expressions it uses) */
+  relatedParameters?: string[];
+}
+
+export interface DiagnoseOptions {
+  /** Input items to include per upstream connection (default: 5) */
+  inputLimit?: number;
+}
+
+/**
+ * Builds a failure report for an execution: the failing node, its error, its
+ * parameters and schema, the items it received and matching known error patterns
+ */
+export class ExecutionDiagnoser {
+  constructor(
+    private workflowService: N8nWorkflowService,
+    private nodeService: N8nNodeService
+  ) {}
+
+  async diagnose(executionId: string, options: DiagnoseOptions = {}) {
+    const execution: any = await this.workflowService.getExecutionDetails(executionId, true);
+    const summary = summarizeExecution(execution);
+    const runData = getRunData(execution);
+
+    const failingNodeName = summary.error?.node
+      ?? summary.nodes.find(n => n.status === 'error')?.node;
+
+    if (!failingNodeName) {
+      return {
+        executionId: summary.id,
+        workflowId: summary.workflowId,
+        status: summary.status,
+        failed: false,
+        message: 'No failing node found in this execution',
+        nodes: summary.nodes,
+      };
+    }
+
+    // The workflow as it was when the execution ran, falling back to the current version
+    const workflow = execution.workflowData ?? await this.workflowService.getWorkflow(execution.workflowId);
+    const node = (workflow.nodes || []).find((n: any) => n.name === failingNodeName);
+
+    const runs = runData[failingNodeName] || [];
+    const failedRunIndex = Math.max(0, runs.findIndex((r: any) => r.error));
+    const failedRun = runs[failedRunIndex];
+    const rawError = failedRun?.error ?? execution.data.resultData.error ?? {};
+
+    const schema = node ? this.getNodeSchema(node) : null;
+    const input = failedRun ? this.getInputItems(execution, failedRun, options.inputLimit ?? 5) : [];
+    const diagnosis = matchErrorPatterns(rawError, node, schema);
+
+    logger.info(`Diagnosed execution ${summary.id}: ${failingNodeName} failed (${diagnosis.map(d => d.pattern).join(', ') || 'no known pattern'})`);
+
+    return {
+      executionId: summary.id,
+      workflowId: summary.workflowId,
+      status: summary.status,
+      failed: true,
+      failingNode: node
+        ? {
+          name: node.name,
+          type: node.type,
+          typeVersion: node.typeVersion,
+          runIndex: failedRunIndex,
+          parameters: node.parameters || {},
+          credentials: node.credentials || {},
+          ...(node.onError ? { onError: node.onError } : {}),
+        }
+        : { name: failingNodeName, note: 'Node not found in the workflow definition' },
+      error: {
+        message: rawError.message || summary.error?.message || 'Unknown error',
+        ...(rawError.description ? { description: rawError.description } : {}),
+        ...(rawError.httpCode ? { httpCode: String(rawError.httpCode) } : {}),
+        ...(summary.nodes.find(n => n.node === failingNodeName)?.error?.stack
+          ? { stack: summary.nodes.find(n => n.node === failingNodeName)!.error!.stack }
+          : summary.error?.stack ? { stack: summary.error.stack } : {}),
+      },
+      diagnosis,
+      schema,
+      input,
+      nodes: summary.nodes.map(n => ({ node: n.node, status: n.status, itemCount: n.itemCount })),
+    };
+  }
+
+  /**
+   * Parameters visible with the node's current settings and the credentials it needs
+   */
+  private getNodeSchema(node: any) {
+    let info: any;
+    let note: string | undefined;
+    try {
+      info = this.nodeService.getNodeInfo(node.type, node.typeVersion !== undefined ? Number(node.typeVersion) : undefined);
+    } catch (error) {
+      // Unknown typeVersion (e.g. a node database built for another n8n version): use the latest schema
+      note = `${error instanceof Error ? error.message : error}; showing the latest schema`;
+      info = this.nodeService.getNodeInfo(node.type);
+    }
+    if (!info) return null;
+
+    const context = { parameters: node.parameters || {}, typeVersion: node.typeVersion };
+    const properties = getVisibleProperties(info.properties || [], context)
+      .filter((p: any) => !NON_VALUE_TYPES.includes(p.type))
+      .map((p: any) => ({
+        name: p.name,
+        displayName: p.displayName,
+        type: p.type,
+        ...(p.required ? { required: true } : {}),
+        ...(p.default !== undefined && p.default !== '' ? { default: p.default } : {}),
+        ...(Array.isArray(p.options) && p.type !== 'collection' && p.type !== 'fixedCollection'
+          ? { options: p.options.map((o: any) => o.value ?? o.name) }
+          : {}),
+      }));
+
+    const credentials = (info.credentials || [])
+      .filter((c: any) => isPropertyVisible(c, { ...context, properties: info.properties || [] }))
+      .map((c: any) => ({ name: c.name, required: Boolean(c.required) }));
+
+    return {
+      nodeType: info.node_type,
+      ...(note ? { note } : {}),
+      credentials_required: credentials,
+      properties_schema: properties,
+    };
+  }
+
+  /**
+   * Items the failing run received, read from the upstream nodes' outputs
+   */
+  private getInputItems(execution: any, run: any, limit: number) {
+    return (run.source || [])
+      .filter((s: any) => s?.previousNode)
+      .map((s: any) => {
+        try {
+          const output = getNodeOutput(execution, s.previousNode, {
+            runIndex: s.previousNodeRun ?? undefined,
+            outputIndex: s.previousNodeOutput ?? 0,
+            limit,
+          });
+          return {
+            fromNode: s.previousNode,
+            outputIndex: output.outputIndex,
+            totalItems: output.totalItems,
+            items: output.items,
+          };
+        } catch (error) {
+          return { fromNode: s.previousNode, error: error instanceof Error ? error.message : String(error) };
+        }
+      });
+  }
+}
+
+/**
+ * Known causes of node failures, matched on the error and the node configuration
+ */
+function matchErrorPatterns(error: any, node: any, schema: any): ErrorPatternMatch[] {
+  const text = [error?.message, error?.description, error?.name].filter(Boolean).join(' ');
+  const matches: ErrorPatternMatch[] = [];
+
+  if (error?.name === 'ExpressionError' || /expression|referenced node|is not defined|cannot read propert(y|ies) of (undefined|null)|\$json|\$node|\$\(/i.test(text)) {
+    matches.push({
+      pattern: 'expression-error',
+      explanation: 'An expression could not be resolved, usually because it references a node that did not run, a field that does not exist on the input items, or uses a typo',
+      suggestion: 'Check the expressions below against the input items; use optional chaining (?.) or a default for fields that are not always present',
+      relatedParameters: findExpressionParameters(node?.parameters || {}),
+    });
+  }
+
+  const configuredCredentials = Object.keys(node?.credentials || {});
+  const missingCredentials = (schema?.credentials_required || [])
+    .filter((c: any) => c.required && !configuredCredentials.includes(c.name))
+    .map((c: any) => c.name);
+  if (missingCredentials.length > 0 || /credential(s)? (not found|not set|are not set|missing)|no credentials|does not have any credentials/i.test(text)) {
+    matches.push({
+      pattern: 'missing-credentials',
+      explanation: missingCredentials.length > 0
+        ? `The node has no credentials of type ${missingCredentials.join(', ')} set`
+        : 'The credentials referenced by the node do not exist or are not accessible',
+      suggestion: 'Select existing credentials in the node (credential IDs differ between instances) or create them',
+    });
+  }
+
+  const httpCode = Number(error?.httpCode ?? /\b(?:status code|HTTP|code)\s*:?\s*([45]\d\d)\b/i.exec(text)?.[1] ?? /\b([45]\d\d)\b\s*-/.exec(text)?.[1]);
+  if (httpCode >= 400) {
+    if (httpCode === 401 || httpCode === 403) {
+      matches.push({
+        pattern: 'http-auth',
+        explanation: `The remote service rejected the request with ${httpCode} (authentication or permissions)`,
+        suggestion: 'Check that the credentials are valid, not expired, and have the scopes/permissions this operation needs',
+      });
+    } else if (httpCode === 404) {
+      matches.push({
+        pattern: 'http-not-found',
+        explanation: 'The remote resource was not found (404)',
+        suggestion: 'Check IDs, URLs and resource names in the parameters, especially values built from expressions',
+      });
+    } else if (httpCode === 429) {
+      matches.push({
+        pattern: 'http-rate-limit',
+        explanation: 'The remote service is rate limiting requests (429)',
+        suggestion: 'Enable "Retry On Fail" with a wait time, batch the requests, or reduce the number of items',
+      });
+    } else if (httpCode < 500) {
+      matches.push({
+        pattern: 'http-client-error',
+        explanation: `The remote service rejected the request as invalid (${httpCode})`,
+        suggestion: 'Compare the request body/query parameters with the API documentation and the input items',
+      });
+    } else {
+      matches.push({
+        pattern: 'http-server-error',
+        explanation: `The remote service failed (${httpCode}); this is usually not caused by the workflow`,
+        suggestion: 'Retry later or enable "Retry On Fail"; check the service status',
+      });
+    }
+  }
+
+  if (/ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|timeout|socket hang up|getaddrinfo/i.test(text)) {
+    matches.push({
+      pattern: 'connection-error',
+      explanation: 'The node could not reach the remote host',
+      suggestion: 'Check the URL/host, DNS and firewall rules from the n8n server, or increase the timeout',
+    });
+  }
+
+  if (/(expected|must be|should be) (a |an |of type )?(string|number|boolean|array|object|integer|date)|is not a(n)? (string|number|function|array|object)|invalid type|wrong type|type mismatch|cannot be converted|not a valid (number|date|json)/i.test(text)) {
+    matches.push({
+      pattern: 'type-mismatch',
+      explanation: 'A value has the wrong type for the parameter or field it is used in',
+      suggestion: 'Convert the value in the expression (e.g. Number(), String(), JSON.parse(), .toISOString()) or enable the node\'s type conversion option',
+      relatedParameters: findExpressionParameters(node?.parameters || {}),
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Paths of parameters whose value is an expression (strings starting with "=")
+ */
+function findExpressionParameters(parameters: any, basePath: string = ''): string[] {
+  if (typeof parameters === 'string') {
+    return parameters.startsWith('=') ? [basePath] : [];
+  }
+  if (Array.isArray(parameters)) {
+    return parameters.flatMap((value, i) => findExpressionParameters(value, `${basePath}[${i}]`));
+  }
+  if (parameters && typeof parameters === 'object') {
+    return Object.entries(parameters).flatMap(([key, value]) =>
+      findExpressionParameters(value, basePath ? `${basePath}.${key}` : key)
+    );
+  }
+  return [];
+}
@@ -0,0 +1,250 @@
+import { N8nWorkflowService } from './workflow-service.js';
+import { summarizeExecution } from '../utils/execution-data.js';
+import { logger } from '../utils/logger.js';
+
+export interface ExecutionStatsOptions {
+  workflowId?: string;
+  /** Start of the window (ISO date); defaults to `days` before `until` */
+  since?: string;
+  /** End of the window (ISO date, default: now) */
+  until?: string;
+  /** Window length when `since` is not given (default: 7) */
+  days?: number;
+  /** Also aggregate the window of the same length before `since` (default: true) */
+  compareToPrevious?: boolean;
+  /** Failed executions whose run data is fetched to find the failing node (default: 100) */
+  maxFailureDetails?: number;
+}
+
+export interface CountEntry {
+  key: string;
+  count: number;
+}
+
+export interface WorkflowExecutionStats {
+  workflowId: string;
+  name: string | null;
+  total: number;
+  byStatus: Record<string, number>;
+  /** success / (success + error); null when nothing finished */
+  successRate: number | null;
+  durationMs: { p50: number | null; p95: number | null; max: number | null };
+  failuresByNode: CountEntry[];
+  failuresByMessage: CountEntry[];
+  previous?: { total: number; successRate: number | null };
+  /** successRate minus the previous window's, in percentage points */
+  successRateChange?: number | null;
+}
+
+const DEFAULT_DAYS = 7;
+const DEFAULT_MAX_FAILURE_DETAILS = 100;
+const TOP_FAILURES = 10;
+const MAX_MESSAGE_LENGTH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Aggregates execution history per workflow over a time window: success rate,
+ * duration percentiles and the nodes and messages failures come from
+ */
+export class ExecutionStatsService {
+  constructor(private workflowService: N8nWorkflowService) {}
+
+  async getStats(options: ExecutionStatsOptions = {}) {
+    const until = options.until ? new Date(options.until) : new Date();
+    const since = options.since
+      ? new Date(options.since)
+      : new Date(until.getTime() - (options.days ?? DEFAULT_DAYS) * DAY_MS);
+    if (Number.isNaN(since.getTime()) || Number.isNaN(until.getTime()) || since >= until) {
+      throw new Error('Invalid time window: since must be a date before until');
+    }
+
+    const { executions, truncated } = await this.workflowService.listExecutions({
+      workflowId: options.workflowId,
+      startedAfter: since.toISOString(),
+      startedBefore: until.toISOString(),
+    });
+
+    const failures = await this.getFailureDetails(
+      executions.filter(e => getStatus(e) === 'error'),
+      options.maxFailureDetails ?? DEFAULT_MAX_FAILURE_DETAILS
+    );
+
+    const workflows = groupByWorkflow(executions);
+    const names = await this.getWorkflowNames();
+    const stats: WorkflowExecutionStats[] = [...workflows.entries()].map(([workflowId, list]) =>
+      aggregate(workflowId, names.get(workflowId) ?? null, list, failures)
+    );
+
+    if (options.compareToPrevious !== false) {
+      const previousSince = new Date(since.getTime() - (until.getTime() - since.getTime()));
+      const previous = await this.workflowService.listExecutions({
+        workflowId: options.workflowId,
+        startedAfter: previousSince.toISOString(),
+        startedBefore: since.toISOString(),
+      });
+      const previousByWorkflow = groupByWorkflow(previous.executions);
+      for (const entry of stats) {
+        const list = previousByWorkflow.get(entry.workflowId) || [];
+        const previousRate = successRate(list);
+        entry.previous = { total: list.length, successRate: previousRate };
+        entry.successRateChange = entry.successRate !== null && previousRate !== null
+          ? round(entry.successRate - previousRate)
+          : null;
+      }
+    }
+
+    // Workflows with the most failures first
+    stats.sort((a, b) => (b.byStatus.error ?? 0) - (a.byStatus.error ?? 0) || b.total - a.total);
+
+    const failed = executions.filter(e => getStatus(e) === 'error').length;
+    logger.info(`Aggregated ${executions.length} executions of ${stats.length} workflows`);
+
+    return {
+      window: { since: since.toISOString(), until: until.toISOString() },
+      totals: {
+        executions: executions.length,
+        failed,
+        successRate: successRate(executions),
+        workflows: stats.length,
+      },
+      ...(truncated ? { truncated: true, note: 'Only the most recent executions in the window were aggregated; narrow the window or filter by workflowId' } : {}),
+      ...(failed > failures.size
+        ? { failureDetails: { analyzed: failures.size, skipped: failed - failures.size } }
+        : {}),
+      workflows: stats,
+    };
+  }
+
+  /**
+   * Failing node and error message of failed executions, newest first
+   */
+  private async getFailureDetails(failed: any[], max: number) {
+    const details = new Map<string, { node: string | null; message: string }>();
+    for (const execution of failed.slice(0, max)) {
+      try {
+        const summary = summarizeExecution(await this.workflowService.getExecutionDetails(String(execution.id), true));
+        const failedNode = summary.nodes.find(n => n.status === 'error');
+        const error = summary.error ?? failedNode?.error;
+        details.set(String(execution.id), {
+          node: error?.node ?? failedNode?.node ?? null,
+          message: normalizeMessage(error?.message ?? 'Unknown error'),
+        });
+      } catch (error) {
+        // Executions without saved run data can still be counted, just not attributed
+        logger.warn(`Could not load execution ${execution.id}:`, error);
+      }
+    }
+    return details;
+  }
+
+  private async getWorkflowNames() {
+    const names = new Map<string, string>();
+    try {
+      const workflows: any = await this.workflowService.listWorkflows();
+      for (const workflow of workflows.data || []) {
+        names.set(String(workflow.id), workflow.name);
+      }
+    } catch (error) {
+      logger.warn('Could not load workflow names:', error);
+    }
+    return names;
+  }
+}
+
+function aggregate(
+  workflowId: string,
+  name: string | null,
+  executions: any[],
+  failures: Map<string, { node: string | null; message: string }>
+): WorkflowExecutionStats {
+  const byStatus: Record<string, number> = {};
+  const byNode = new Map<string, number>();
+  const byMessage = new Map<string, number>();
+  const durations: number[] = [];
+
+  for (const execution of executions) {
+    const status = getStatus(execution);
+    byStatus[status] = (byStatus[status] ?? 0) + 1;
+
+    if ((status === 'success' || status === 'error') && execution.startedAt && execution.stoppedAt) {
+      durations.push(new Date(execution.stoppedAt).getTime() - new Date(execution.startedAt).getTime());
+    }
+
+    const failure = failures.get(String(execution.id));
+    if (failure) {
+      const node = failure.node ?? '(unknown)';
+      byNode.set(node, (byNode.get(node) ?? 0) + 1);
+      byMessage.set(failure.message, (byMessage.get(failure.message) ?? 0) + 1);
+    }
+  }
+
+  durations.sort((a, b) => a - b);
+  return {
+    workflowId,
+    name,
+    total: executions.length,
+    byStatus,
+    successRate: successRate(executions),
+    durationMs: {
+      p50: percentile(durations, 50),
+      p95: percentile(durations, 95),
+      max: durations.length > 0 ? durations[durations.length - 1] : null,
+    },
+    failuresByNode: topCounts(byNode),
+    failuresByMessage: topCounts(byMessage),
+  };
+}
+
+/**
+ * Execution status, derived from finished/stoppedAt/waitTill on n8n versions
+ * whose list endpoint does not return it
+ */
+function getStatus(execution: any): string {
+  if (execution.status) return execution.status;
+  if (execution.finished) return 'success';
+  if (execution.waitTill) return 'waiting';
+  return execution.stoppedAt ? 'error' : 'running';
+}
+
+function groupByWorkflow(executions: any[]) {
+  const groups = new Map<string, any[]>();
+  for (const execution of executions) {
+    const id = String(execution.workflowId);
+    groups.set(id, [...(groups.get(id) || []), execution]);
+  }
+  return groups;
+}
+
+function successRate(executions: any[]): number | null {
+  const statuses = executions.map(getStatus);
+  const success = statuses.filter(s => s === 'success').length;
+  const finished = success + statuses.filter(s => s === 'error').length;
+  return finished > 0 ? round((success / finished) * 100) : null;
+}
+
+/**
+ * Nearest-rank percentile of a sorted list
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function topCounts(counts: Map<string, number>): CountEntry[] {
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_FAILURES);
+}
+
+/**
+ * First line of an error message, so the same failure groups together
+ */
+function normalizeMessage(message: string): string {
+  return message.split('\n')[0].trim().slice(0, MAX_MESSAGE_LENGTH);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,219 @@
+import path from 'path';
+import * as fs from 'fs';
+import { N8nNodeService } from './node-service.js';
+import { N8nWorkflowService } from './workflow-service.js';
+import { WorkflowSnapshotStore } from './snapshot-store.js';
+import { WorkflowValidator } from './workflow-validator.js';
+import { WorkflowGraphAnalyzer } from './workflow-graph-analyzer.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A named n8n instance (dev, staging, prod, ...) with its own API credentials,
+ * node database and local snapshot history
+ */
+export interface InstanceProfile {
+  name: string;
+  description?: string;
+  apiUrl: string;
+  /** API key, or the name of an environment variable holding it (apiKeyEnv) */
+  apiKey?: string;
+  apiKeyEnv?: string;
+  /** Editor/webhook base URL (e.g. https://n8n.example.com) */
+  baseUrl?: string;
+  /** Node database built for this instance's n8n version */
+  nodeDbPath?: string;
+  snapshotDbPath?: string;
+}
+
+/**
+ * Format of the file referenced by N8N_INSTANCES_CONFIG
+ */
+export interface InstancesConfigFile {
+  default?: string;
+  instances: Record<string, Omit<InstanceProfile, 'name'>>;
+}
+
+/**
+ * Services bound to one instance
+ */
+export interface InstanceContext {
+  profile: InstanceProfile;
+  nodeService: N8nNodeService;
+  workflowService: N8nWorkflowService;
+  workflowValidator: WorkflowValidator;
+  graphAnalyzer: WorkflowGraphAnalyzer;
+  snapshotStore: WorkflowSnapshotStore;
+}
+
+/**
+ * Base URL webhooks are served from: the profile's baseUrl, or the API URL without /api/v1
+ */
+export function getWebhookBaseUrl(profile: InstanceProfile): string {
+  return profile.baseUrl || profile.apiUrl.replace(/\/api\/v\d+\/?$/, '');
+}
+
+export interface InstanceRegistryOptions {
+  defaultNodeDbPath: string;
+}
+
+export class InstanceRegistry {
+  private profiles = new Map<string, InstanceProfile>();
+  private contexts = new Map<string, InstanceContext>();
+  // Instances on the same n8n version share one node database connection
+  private nodeServices = new Map<string, N8nNodeService>();
+
+  constructor(
+    profiles: InstanceProfile[],
+    private defaultInstance: string,
+    private options: InstanceRegistryOptions
+  ) {
+    if (profiles.length === 0) {
+      throw new Error('No n8n instances configured');
+    }
+    for (const profile of profiles) {
+      if (!profile.apiUrl) {
+        throw new Error(`Instance "${profile.name}" has no apiUrl`);
+      }
+      this.profiles.set(profile.name, profile);
+    }
+    if (!this.profiles.has(defaultInstance)) {
+      throw new Error(`Default instance "${defaultInstance}" is not configured (available: ${[...this.profiles.keys()].join(', ')})`);
+    }
+  }
+
+  /**
+   * Load profiles from the N8N_INSTANCES_CONFIG file, or build a single
+   * "default" profile from N8N_API_URL / N8N_API_KEY when no file is configured
+   */
+  static fromEnvironment(env: NodeJS.ProcessEnv = process.env): InstanceRegistry {
+    const options: InstanceRegistryOptions = {
+      defaultNodeDbPath: env.N8N_MCP_DB_PATH || './data/nodes.db',
+    };
+    const snapshotDbPath = env.N8N_MCP_SNAPSHOT_DB_PATH || './data/snapshots.db';
+
+    if (env.N8N_INSTANCES_CONFIG) {
+      const configPath = path.resolve(process.cwd(), env.N8N_INSTANCES_CONFIG);
+      let config: InstancesConfigFile;
+      try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Failed to read instances config ${configPath}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const names = Object.keys(config.instances || {});
+      const profiles = names.map(name => ({
+        // Keep snapshot histories apart: workflow IDs are only unique per instance
+        snapshotDbPath: path.join(path.dirname(snapshotDbPath), `snapshots-${name}.db`),
+        ...config.instances[name],
+        name,
+      }));
+
+      logger.info(`Loaded ${profiles.length} n8n instance profile(s) from ${configPath}`);
+      return new InstanceRegistry(profiles, config.default || names[0], options);
+    }
+
+    const missingVars = ['N8N_API_URL', 'N8N_API_KEY'].filter(v => !env[v]);
+    if (missingVars.length > 0) {
+      throw new Error(`Missing required environment variables: ${missingVars.join(', ')} (or set N8N_INSTANCES_CONFIG)`);
+    }
+
+    return new InstanceRegistry([{
+      name: 'default',
+      apiUrl: env.N8N_API_URL!,
+      apiKey: env.N8N_API_KEY,
+      baseUrl: env.N8N_BASE_URL,
+      nodeDbPath: options.defaultNodeDbPath,
+      snapshotDbPath,
+    }], 'default', options);
+  }
+
+  get defaultName(): string {
+    return this.defaultInstance;
+  }
+
+  /**
+   * Services for an instance (the default instance when no name is given)
+   */
+  get(instance?: string): InstanceContext {
+    const name = instance || this.defaultInstance;
+    const existing = this.contexts.get(name);
+    if (existing) return existing;
+
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Unknown n8n instance "${name}" (available: ${[...this.profiles.keys()].join(', ')})`);
+    }
+
+    const apiKey = profile.apiKeyEnv ? process.env[profile.apiKeyEnv] : profile.apiKey;
+    if (!apiKey) {
+      throw new Error(`No API key for instance "${name}"${profile.apiKeyEnv ? ` (environment variable ${profile.apiKeyEnv} is not set)` : ''}`);
+    }
+
+    const nodeService = this.getNodeService(profile.nodeDbPath || this.options.defaultNodeDbPath);
+    const snapshotStore = new WorkflowSnapshotStore(profile.snapshotDbPath);
+    const context: InstanceContext = {
+      profile,
+      nodeService,
+      snapshotStore,
+      workflowService: new N8nWorkflowService(profile.apiUrl, apiKey, snapshotStore),
+      workflowValidator: new WorkflowValidator(nodeService),
+      graphAnalyzer: new WorkflowGraphAnalyzer(nodeService),
+    };
+
+    this.contexts.set(name, context);
+    return context;
+  }
+
+  /**
+   * Configured instances without secrets
+   */
+  list() {
+    return [...this.profiles.values()].map(profile => {
+      const nodeDbPath = profile.nodeDbPath || this.options.defaultNodeDbPath;
+      let nodeDbVersion: string | null = null;
+      try {
+        nodeDbVersion = this.getNodeService(nodeDbPath).getDatabaseVersion();
+      } catch (error) {
+        logger.warn(`Node database for instance "${profile.name}" is unavailable:`, error);
+      }
+
+      return {
+        name: profile.name,
+        default: profile.name === this.defaultInstance,
+        description: profile.description,
+        apiUrl: profile.apiUrl,
+        baseUrl: profile.baseUrl,
+        hasApiKey: Boolean(profile.apiKeyEnv ? process.env[profile.apiKeyEnv] : profile.apiKey),
+        nodeDbPath,
+        nodeDbVersion,
+      };
+    });
+  }
+
+  /**
+   * Close every database opened so far; one failing close does not stop the others
+   */
+  close() {
+    const closables = [
+      ...[...this.contexts.values()].map(c => c.snapshotStore),
+      ...this.nodeServices.values(),
+    ];
+    for (const closable of closables) {
+      try {
+        closable.close();
+      } catch (error) {
+        logger.warn('Failed to close database:', error);
+      }
+    }
+  }
+
+  private getNodeService(dbPath: string): N8nNodeService {
+    const key = path.resolve(process.cwd(), dbPath);
+    let nodeService = this.nodeServices.get(key);
+    if (!nodeService) {
+      nodeService = new N8nNodeService(dbPath);
+      this.nodeServices.set(key, nodeService);
+    }
+    return nodeService;
+  }
+}
@@ -2,6 +2,10 @@ import Database from 'better-sqlite3';
 
 import path from 'path';
 import { logger } from '../utils/logger.js';
+import { NodeTypeCandidate, NodeTypeResolution, NodeTypeResolver } from '../utils/node-type-resolver.js';
+import { buildOperationTree, getOperationParameters, OperationTreeResource } from '../utils/operation-tree.js';
+import { isPropertyAvailableInVersion, isPropertyVisible } from '../utils/display-options.js';
+import { diffNodeVersions, NodeVersionDiff } from '../utils/node-version-diff.js';
 
 export interface NodeInfo {
   node_type: string;
@@ -17,43 +21,108 @@ export interface NodeInfo {
   documentation?: string;
   properties_schema?: string;
   operations?: string;
+  operation_tree?: string;
   credentials_required?: string;
+  outputs?: string;
+  output_names?: string;
 }
 
+export interface NodeSearchFilters {
+  category?: string;
+  packageName?: string;
+  isTrigger?: boolean;
+  isAiTool?: boolean;
+}
+
+export type NodeSearchResult = Omit<NodeInfo, 'documentation' | 'properties_schema' | 'operations' | 'operation_tree' | 'credentials_required' | 'outputs' | 'output_names'> & {
+  relevance?: number;
+};
+
 export class N8nNodeService {
   private db: any;
-  private templatesDb: any;
+  private resolver: NodeTypeResolver | null = null;
+  /** Path of the opened nodes database */
+  readonly dbPath: string;
 
-  constructor(dbPath?: string, templatesDbPath?: string) {
+  constructor(dbPath?: string) {
     // Use local database by default, fallback to n8n-mcp
-    const resolvedDbPath = dbPath || path.resolve(process.cwd(), './data/nodes.db');
-    const resolvedTemplatesDbPath = templatesDbPath || path.resolve(process.cwd(), '../n8n-mcp/data/templates.db');
+    this.dbPath = dbPath || path.resolve(process.cwd(), './data/nodes.db');
 
-    logger.info(`Connecting to nodes database: ${resolvedDbPath}`);
-    logger.info(`Connecting to templates database: ${resolvedTemplatesDbPath}`);
+    logger.info(`Connecting to nodes database: ${this.dbPath}`);
 
     try {
-      this.db = new Database(resolvedDbPath, { readonly: true });
-      
-      // Templates DB is optional
-      try {
-        this.templatesDb = new Database(resolvedTemplatesDbPath, { readonly: true });
-      } catch (e) {
-        logger.warn('Templates database not found, template features will be unavailable');
-      }
-      
-      logger.info('Successfully connected to databases');
+      this.db = new Database(this.dbPath, { readonly: true });
+      logger.info('Successfully connected to nodes database');
     } catch (error) {
-      logger.error('Failed to connect to databases:', error);
+      logger.error('Failed to connect to nodes database:', error);
       throw new Error(`Database connection failed: ${error}`);
     }
   }
 
   /**
-   * Search nodes by keyword across name, description, and documentation
+   * Search nodes by keyword using the full-text index (BM25 ranking, prefix matching).
    * Returns minimal info to save tokens - use getNodeInfo for full details
    */
-  searchNodes(keyword: string, limit: number = 10): Array<Omit<NodeInfo, 'documentation' | 'properties_schema' | 'operations' | 'credentials_required'>> {
+  searchNodes(keyword: string, limit: number = 10, filters: NodeSearchFilters = {}): NodeSearchResult[] {
+    let results: NodeSearchResult[] = [];
+    const terms = tokenizeSearchQuery(keyword);
+
+    if (!this.hasTable('nodes_fts')) {
+      logger.warn('Full-text index not found, falling back to LIKE search. Run npm run rebuild-db to enable ranked search.');
+      results = this.searchNodesLike(keyword, limit, filters);
+    } else if (terms.length > 0) {
+      // All terms must match; if that finds nothing, accept nodes matching any term
+      results = this.searchNodesFts(terms.join(' '), keyword, limit, filters);
+      if (results.length === 0 && terms.length > 1) {
+        results = this.searchNodesFts(terms.join(' OR '), keyword, limit, filters);
+      }
+    }
+
+    logger.info(`Found ${results.length} nodes matching "${keyword}" (minimal info, use get_node_info for full details)`);
+    return results;
+  }
+
+  private searchNodesFts(matchExpression: string, keyword: string, limit: number, filters: NodeSearchFilters): NodeSearchResult[] {
+    const { clause, params } = buildFilterClause(filters, 'n');
+
+    // bm25 weights follow the nodes_fts column order:
+    // node_type, display_name, node_name, aliases, description, operations, documentation
+    const query = `
+      SELECT
+        n.node_type,
+        n.package_name,
+        n.display_name,
+        n.description,
+        n.category,
+        n.is_ai_tool,
+        n.is_trigger,
+        n.is_webhook,
+        bm25(nodes_fts, 0.0, 10.0, 8.0, 6.0, 3.0, 2.0, 1.0) AS rank
+      FROM nodes_fts
+      JOIN nodes n ON n.node_type = nodes_fts.node_type
+      WHERE nodes_fts MATCH ?
+      ${clause}
+      ORDER BY (
+        lower(n.display_name) = lower(?)
+        OR lower(substr(n.node_type, instr(n.node_type, '.') + 1)) = lower(?)
+      ) DESC, rank
+      LIMIT ?
+    `;
+
+    // Exact name matches ("slack" -> Slack) always rank first
+    const exactName = normalizeSearchKeyword(keyword);
+    const rows = this.db.prepare(query).all(matchExpression, ...params, exactName, exactName, limit) as any[];
+    return rows.map(({ rank, ...row }) => ({
+      ...row,
+      relevance: Math.round(-rank * 1000) / 1000,
+    }));
+  }
+
+  /**
+   * Substring search for databases built before the full-text index existed
+   */
+  private searchNodesLike(keyword: string, limit: number, filters: NodeSearchFilters): NodeSearchResult[] {
+    const { clause, params } = buildFilterClause(filters);
     const query = `
       SELECT 
         node_type,
@@ -65,41 +134,73 @@ export class N8nNodeService {
         is_trigger,
         is_webhook
       FROM nodes
-      WHERE node_type LIKE ? 
+      WHERE (node_type LIKE ? 
          OR display_name LIKE ? 
          OR description LIKE ?
-         OR documentation LIKE ?
+         OR documentation LIKE ?)
+      ${clause}
       LIMIT ?
     `;
 
     const searchPattern = `%${keyword}%`;
-    const results = this.db.prepare(query).all(
+    return this.db.prepare(query).all(
       searchPattern,
       searchPattern,
       searchPattern,
       searchPattern,
+      ...params,
       limit
     );
-
-    logger.info(`Found ${results.length} nodes matching "${keyword}" (minimal info, use get_node_info for full details)`);
-    return results;
   }
 
   /**
-   * Get detailed information about a specific node
+   * Get detailed information about a specific node.
+   * With a typeVersion, the schema is narrowed to that version of the node.
    */
-  getNodeInfo(nodeType: string): NodeInfo | null {
-    // Normalize node type (handle both formats)
-    const normalizedType = nodeType.replace('n8n-nodes-base.', 'nodes-base.');
+  getNodeInfo(nodeType: string, typeVersion?: number): NodeInfo | null {
+    // Accept package-prefixed types, bare names, display names and aliases
+    const resolution = this.resolveNodeType(nodeType);
+    if (!resolution.nodeType) {
+      logger.warn(`Node not found: ${nodeType}`);
+      return null;
+    }
 
     const query = `SELECT * FROM nodes WHERE node_type = ?`;
-    const result = this.db.prepare(query).get(normalizedType) as NodeInfo | undefined;
+    const result = this.db.prepare(query).get(resolution.nodeType) as NodeInfo | undefined;
 
     if (!result) {
       logger.warn(`Node not found: ${nodeType}`);
       return null;
     }
 
+    (result as any).workflow_node_type = resolution.workflowNodeType;
+    if (resolution.matchedBy !== 'exact') {
+      (result as any).resolved_from = nodeType;
+    }
+
+    // Versioned nodes store one schema per typeVersion in node_versions
+    let versionRow: any;
+    if (typeVersion !== undefined) {
+      const versions = parseVersions(result.version);
+      if (versions.length > 0 && !versions.includes(typeVersion)) {
+        throw new Error(`typeVersion ${typeVersion} is not available for ${result.node_type} (available: ${versions.join(', ')})`);
+      }
+
+      if (this.hasTable('node_versions')) {
+        versionRow = this.db.prepare(`
+          SELECT * FROM node_versions WHERE node_type = ? AND version = ?
+        `).get(result.node_type, typeVersion);
+      }
+
+      if (versionRow) {
+        result.properties_schema = versionRow.properties_schema;
+        result.operation_tree = versionRow.operation_tree;
+        result.credentials_required = versionRow.credentials_required;
+        result.outputs = versionRow.outputs;
+        result.output_names = versionRow.output_names;
+      }
+    }
+
     // Parse JSON fields
     if (result.properties_schema) {
       try {
@@ -117,6 +218,14 @@ export class N8nNodeService {
       }
     }
 
+    if (result.operation_tree) {
+      try {
+        (result as any).resource_operations = JSON.parse(result.operation_tree);
+      } catch (e) {
+        logger.error(`Failed to parse operation tree for ${nodeType}`);
+      }
+    }
+
     if (result.credentials_required) {
       try {
         (result as any).credentials = JSON.parse(result.credentials_required);
@@ -125,22 +234,157 @@ export class N8nNodeService {
       }
     }
 
-    // Parse version field - could be JSON array of versions
-    if (result.version) {
+    if (result.outputs) {
+      try {
+        (result as any).outputs_list = JSON.parse(result.outputs);
+      } catch (e) {
+        logger.error(`Failed to parse outputs for ${nodeType}`);
+      }
+    }
+
+    if (result.output_names) {
       try {
-        const parsed = JSON.parse(result.version);
-        (result as any).versions = Array.isArray(parsed) ? parsed : [parseFloat(result.version)];
-        (result as any).latest_version = (result as any).versions[0];
-      } catch {
-        // Not JSON, treat as single version
-        (result as any).versions = [parseFloat(result.version)];
-        (result as any).latest_version = parseFloat(result.version);
+        (result as any).output_names_list = JSON.parse(result.output_names);
+      } catch (e) {
+        logger.error(`Failed to parse output names for ${nodeType}`);
       }
     }
 
+    // Parse version field - could be JSON array of versions
+    if (result.version) {
+      (result as any).versions = parseVersions(result.version);
+      (result as any).latest_version = (result as any).versions[0];
+    }
+
+    (result as any).type_version = typeVersion ?? (result as any).latest_version;
+
+    // Nodes without per-version rows gate parameters with @version displayOptions
+    if (typeVersion !== undefined && !versionRow && Array.isArray((result as any).properties)) {
+      (result as any).properties = (result as any).properties.filter(
+        (p: any) => isPropertyAvailableInVersion(p, typeVersion)
+      );
+      (result as any).resource_operations = buildOperationTree((result as any).properties, typeVersion) || undefined;
+    }
+
     return result;
   }
 
+  /**
+   * Get only the parameters relevant to one resource + operation pair of a node.
+   * Without an operation, returns the node's resource -> operation tree instead.
+   */
+  getNodeOperation(nodeType: string, resource?: string, operation?: string, typeVersion?: number): any | null {
+    const info: any = this.getNodeInfo(nodeType, typeVersion);
+    if (!info) {
+      return null;
+    }
+
+    const properties: any[] = info.properties || [];
+    const tree: OperationTreeResource[] = info.resource_operations
+      || buildOperationTree(properties, info.type_version)
+      || [];
+
+    if (tree.length === 0) {
+      throw new Error(`${info.node_type} has no resource/operation parameters; use get_node_info for its full parameter list`);
+    }
+
+    if (!operation) {
+      return {
+        node_type: info.node_type,
+        workflow_node_type: info.workflow_node_type,
+        display_name: info.display_name,
+        type_version: info.type_version,
+        resources: tree,
+      };
+    }
+
+    // Find the resource that offers the operation
+    const candidates = tree.filter(r =>
+      (resource === undefined || r.resource === resource) && r.operations.some(o => o.operation === operation)
+    );
+
+    if (candidates.length === 0) {
+      const available = tree
+        .filter(r => resource === undefined || r.resource === resource)
+        .flatMap(r => r.operations.map(o => (r.resource ? `${r.resource}/${o.operation}` : o.operation)));
+      throw new Error(
+        `Operation "${operation}"${resource ? ` for resource "${resource}"` : ''} not found on ${info.node_type}. ` +
+        `Available: ${available.join(', ') || 'none'}`
+      );
+    }
+
+    if (candidates.length > 1) {
+      throw new Error(
+        `Operation "${operation}" exists for several resources of ${info.node_type} ` +
+        `(${candidates.map(r => r.resource).join(', ')}); pass a resource`
+      );
+    }
+
+    const resourceEntry = candidates[0];
+    const operationEntry = resourceEntry.operations.find(o => o.operation === operation)!;
+    const parameters = getOperationParameters(properties, resourceEntry.resource, operation, info.type_version);
+
+    // Credentials can also depend on displayOptions (e.g. the authentication parameter)
+    const selectors: Record<string, any> = { operation };
+    if (resourceEntry.resource !== null) {
+      selectors.resource = resourceEntry.resource;
+    }
+    const credentials = (info.credentials || []).filter((c: any) =>
+      isPropertyVisible(c, { parameters: selectors, properties, typeVersion: info.type_version })
+    );
+
+    return {
+      node_type: info.node_type,
+      workflow_node_type: info.workflow_node_type,
+      display_name: info.display_name,
+      type_version: info.type_version,
+      resource: resourceEntry.resource,
+      operation,
+      name: operationEntry.name,
+      description: operationEntry.description,
+      action: operationEntry.action,
+      parameters,
+      credentials,
+    };
+  }
+
+  /**
+   * Compare the parameters, operations and credentials of two typeVersions of a node
+   */
+  diffNodeVersions(nodeType: string, fromVersion: number, toVersion: number): (NodeVersionDiff & { node_type: string }) | null {
+    const from: any = this.getNodeInfo(nodeType, fromVersion);
+    const to: any = this.getNodeInfo(nodeType, toVersion);
+    if (!from || !to) {
+      return null;
+    }
+
+    const diff = diffNodeVersions(
+      { version: fromVersion, properties: from.properties || [], credentials: from.credentials || [], operationTree: from.resource_operations },
+      { version: toVersion, properties: to.properties || [], credentials: to.credentials || [], operationTree: to.resource_operations }
+    );
+
+    return { node_type: from.node_type, ...diff };
+  }
+
+  /**
+   * Resolve a loosely written node type (full type, bare name, display name or alias)
+   * to the stored node type. Returns the closest candidates when nothing matches.
+   */
+  resolveNodeType(nodeType: string): NodeTypeResolution {
+    if (!this.resolver) {
+      const aliasColumn = this.hasColumn('nodes', 'aliases') ? 'aliases' : 'NULL AS aliases';
+      const rows = this.db.prepare(`SELECT node_type, display_name, ${aliasColumn} FROM nodes`).all() as any[];
+      const candidates: NodeTypeCandidate[] = rows.map(row => ({
+        node_type: row.node_type,
+        display_name: row.display_name,
+        aliases: parseJsonArray(row.aliases),
+      }));
+      this.resolver = new NodeTypeResolver(candidates);
+    }
+
+    return this.resolver.resolve(nodeType);
+  }
+
   /**
    * Get all available categories
    */
@@ -283,10 +527,96 @@ export class N8nNodeService {
   }
 
   /**
-   * Close database connections
+   * Check whether a table exists in the nodes database
+   */
+  private hasTable(name: string): boolean {
+    return !!this.db.prepare(`
+      SELECT name FROM sqlite_master 
+      WHERE type IN ('table', 'view') AND name = ?
+    `).get(name);
+  }
+
+  /**
+   * Check whether a column exists on a table in the nodes database
+   */
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    return columns.some(c => c.name === column);
+  }
+
+  /**
+   * Close the database connection
    */
   close() {
     this.db.close();
-    this.templatesDb.close();
   }
 }
+
+/**
+ * Parse the stored version field (JSON array or single number), newest first
+ */
+function parseVersions(version: string | undefined): number[] {
+  if (!version) return [];
+  try {
+    const parsed = JSON.parse(version);
+    const versions = Array.isArray(parsed) ? parsed.map(Number) : [Number(parsed)];
+    return versions.sort((a, b) => b - a);
+  } catch {
+    // Not JSON, treat as single version
+    return [parseFloat(version)];
+  }
+}
+
+function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Reduce full node types to their name ("n8n-nodes-base.slack" -> "slack")
+ */
+function normalizeSearchKeyword(keyword: string): string {
+  const trimmed = keyword.trim();
+  return /^[\w@\/-]+\.\w+$/.test(trimmed) ? trimmed.split('.').pop()! : trimmed;
+}
+
+/**
+ * Turn a free-text query into quoted FTS5 prefix terms ("send email" -> "send"* "email"*)
+ */
+function tokenizeSearchQuery(keyword: string): string[] {
+  const words = normalizeSearchKeyword(keyword).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map(word => `"${word}"*`);
+}
+
+function buildFilterClause(filters: NodeSearchFilters, alias?: string): { clause: string; params: any[] } {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name);
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.category) {
+    conditions.push(`lower(${column('category')}) = lower(?)`);
+    params.push(filters.category);
+  }
+  if (filters.packageName) {
+    conditions.push(`${column('package_name')} = ?`);
+    params.push(filters.packageName);
+  }
+  if (filters.isTrigger !== undefined) {
+    conditions.push(`${column('is_trigger')} = ?`);
+    params.push(filters.isTrigger ? 1 : 0);
+  }
+  if (filters.isAiTool !== undefined) {
+    conditions.push(`${column('is_ai_tool')} = ?`);
+    params.push(filters.isAiTool ? 1 : 0);
+  }
+
+  return {
+    clause: conditions.map(c => `AND ${c}`).join('\n      '),
+    params,
+  };
+}
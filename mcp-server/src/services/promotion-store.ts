@@ -0,0 +1,68 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import * as fs from 'fs';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Local SQLite store of which workflow on a target instance a source workflow
+ * was promoted to, so later promotions update it even after a rename
+ */
+export class PromotionMappingStore {
+  private db: any;
+
+  constructor(dbPath?: string) {
+    const resolvedDbPath = dbPath || path.resolve(process.cwd(), './data/promotions.db');
+    const dbDir = path.dirname(resolvedDbPath);
+
+    if (!fs.existsSync(dbDir)) {
+      fs.mkdirSync(dbDir, { recursive: true });
+    }
+
+    logger.info(`Connecting to promotions database: ${resolvedDbPath}`);
+
+    try {
+      this.db = new Database(resolvedDbPath);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS workflow_mappings (
+          source_instance TEXT NOT NULL,
+          source_workflow_id TEXT NOT NULL,
+          target_instance TEXT NOT NULL,
+          target_workflow_id TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (source_instance, source_workflow_id, target_instance)
+        );
+      `);
+    } catch (error) {
+      logger.error('Failed to open promotions database:', error);
+      throw new Error(`Promotions database connection failed: ${error}`);
+    }
+  }
+
+  /**
+   * Target workflow ID a source workflow was last promoted to, if any
+   */
+  get(sourceInstance: string, sourceWorkflowId: string, targetInstance: string): string | null {
+    const row = this.db.prepare(`
+      SELECT target_workflow_id FROM workflow_mappings
+      WHERE source_instance = ? AND source_workflow_id = ? AND target_instance = ?
+    `).get(sourceInstance, String(sourceWorkflowId), targetInstance) as { target_workflow_id: string } | undefined;
+
+    return row?.target_workflow_id ?? null;
+  }
+
+  set(sourceInstance: string, sourceWorkflowId: string, targetInstance: string, targetWorkflowId: string) {
+    this.db.prepare(`
+      INSERT INTO workflow_mappings (source_instance, source_workflow_id, target_instance, target_workflow_id, updated_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (source_instance, source_workflow_id, target_instance)
+      DO UPDATE SET target_workflow_id = excluded.target_workflow_id, updated_at = CURRENT_TIMESTAMP
+    `).run(sourceInstance, String(sourceWorkflowId), targetInstance, String(targetWorkflowId));
+  }
+
+  /**
+   * Close database connection
+   */
+  close() {
+    this.db.close();
+  }
+}
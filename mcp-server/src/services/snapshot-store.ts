@@ -0,0 +1,128 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import * as fs from 'fs';
+import { logger } from '../utils/logger.js';
+
+export type SnapshotAction = 'update' | 'toggle' | 'delete' | 'restore';
+
+export interface WorkflowSnapshot {
+  id: number;
+  workflow_id: string;
+  workflow_name: string;
+  version_id: string | null;
+  action: SnapshotAction;
+  created_at: string;
+}
+
+export interface WorkflowSnapshotWithData extends WorkflowSnapshot {
+  workflow: any;
+}
+
+/**
+ * Local SQLite store of full workflow JSON, recorded before every write
+ * made through N8nWorkflowService so any change can be rolled back
+ */
+export class WorkflowSnapshotStore {
+  private db: any;
+
+  constructor(dbPath?: string) {
+    const resolvedDbPath = dbPath || path.resolve(process.cwd(), './data/snapshots.db');
+    const dbDir = path.dirname(resolvedDbPath);
+
+    if (!fs.existsSync(dbDir)) {
+      fs.mkdirSync(dbDir, { recursive: true });
+    }
+
+    logger.info(`Connecting to snapshots database: ${resolvedDbPath}`);
+
+    try {
+      this.db = new Database(resolvedDbPath);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          workflow_id TEXT NOT NULL,
+          workflow_name TEXT,
+          version_id TEXT,
+          action TEXT NOT NULL,
+          workflow_json TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_snapshots_workflow ON snapshots (workflow_id, id);
+      `);
+    } catch (error) {
+      logger.error('Failed to open snapshots database:', error);
+      throw new Error(`Snapshot database connection failed: ${error}`);
+    }
+  }
+
+  /**
+   * Record the full workflow JSON as it was before an action
+   */
+  record(action: SnapshotAction, workflow: any): number {
+    const result = this.db.prepare(`
+      INSERT INTO snapshots (workflow_id, workflow_name, version_id, action, workflow_json)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      String(workflow.id),
+      workflow.name || null,
+      workflow.versionId || null,
+      action,
+      JSON.stringify(workflow)
+    );
+
+    const snapshotId = Number(result.lastInsertRowid);
+    logger.info(`Recorded snapshot ${snapshotId} of workflow ${workflow.id} before ${action}`);
+    return snapshotId;
+  }
+
+  /**
+   * List snapshots for a workflow, newest first (without the workflow JSON)
+   */
+  list(workflowId: string, limit: number = 50): WorkflowSnapshot[] {
+    return this.db.prepare(`
+      SELECT id, workflow_id, workflow_name, version_id, action, created_at
+      FROM snapshots
+      WHERE workflow_id = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(String(workflowId), limit) as WorkflowSnapshot[];
+  }
+
+  /**
+   * Get a snapshot including the recorded workflow JSON
+   */
+  get(snapshotId: number): WorkflowSnapshotWithData | null {
+    const row = this.db.prepare(`
+      SELECT * FROM snapshots WHERE id = ?
+    `).get(snapshotId) as (WorkflowSnapshot & { workflow_json: string }) | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    const { workflow_json, ...snapshot } = row;
+    return { ...snapshot, workflow: JSON.parse(workflow_json) };
+  }
+
+  /**
+   * Most recent snapshot of a workflow recorded at the given versionId
+   */
+  findByVersion(workflowId: string, versionId: string): WorkflowSnapshotWithData | null {
+    const row = this.db.prepare(`
+      SELECT id FROM snapshots
+      WHERE workflow_id = ? AND version_id = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `).get(String(workflowId), versionId) as { id: number } | undefined;
+
+    return row ? this.get(row.id) : null;
+  }
+
+  /**
+   * Close database connection
+   */
+  close() {
+    this.db.close();
+  }
+}
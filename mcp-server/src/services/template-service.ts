@@ -0,0 +1,120 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import * as fs from 'fs';
+import { WorkflowTemplate } from '../utils/workflow-template.js';
+import { logger } from '../utils/logger.js';
+
+export interface TemplateSearchOptions {
+  /** Keywords matched against name, tags, description and sticky notes */
+  query?: string;
+  /** Workflow node types the template must all use */
+  nodeTypes?: string[];
+  limit?: number;
+}
+
+export type TemplateSearchResult = Omit<WorkflowTemplate, 'workflow'> & {
+  relevance?: number;
+};
+
+// Search results show the start of long descriptions only
+const SUMMARY_LENGTH = 200;
+
+/**
+ * Read access to the local templates database built by `npm run build-templates`
+ */
+export class WorkflowTemplateService {
+  private db: any = null;
+  private dbPath: string;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || path.resolve(process.cwd(), './data/templates.db');
+
+    // Templates DB is optional; the template tools explain how to build it
+    if (fs.existsSync(this.dbPath)) {
+      logger.info(`Connecting to templates database: ${this.dbPath}`);
+      this.db = new Database(this.dbPath, { readonly: true });
+    } else {
+      logger.warn(`Templates database not found at ${this.dbPath}, template features will be unavailable`);
+    }
+  }
+
+  /**
+   * Templates matching the keywords (BM25 ranking, prefix matching) and using
+   * all given node types; without a query, every template using the node types
+   */
+  search(options: TemplateSearchOptions = {}): TemplateSearchResult[] {
+    const db = this.getDb();
+    const limit = options.limit ?? 10;
+    const nodeTypes = options.nodeTypes || [];
+    const nodeTypeClause = nodeTypes.map(() =>
+      'AND t.id IN (SELECT template_id FROM template_nodes WHERE node_type = ?)'
+    ).join(' ');
+
+    let rows: any[];
+    const terms = (options.query?.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).map(word => `"${word}"*`);
+    if (terms.length > 0) {
+      // bm25 weights follow the templates_fts column order: template_id, name, tags, description, keywords
+      const query = `
+        SELECT t.*, bm25(templates_fts, 0.0, 10.0, 6.0, 3.0, 1.0) AS rank
+        FROM templates_fts
+        JOIN templates t ON t.id = templates_fts.template_id
+        WHERE templates_fts MATCH ? ${nodeTypeClause}
+        ORDER BY rank
+        LIMIT ?
+      `;
+      // All terms must match; if that finds nothing, accept templates matching any term
+      rows = db.prepare(query).all(terms.join(' '), ...nodeTypes, limit);
+      if (rows.length === 0 && terms.length > 1) {
+        rows = db.prepare(query).all(terms.join(' OR '), ...nodeTypes, limit);
+      }
+    } else {
+      rows = db.prepare(`
+        SELECT t.* FROM templates t
+        WHERE 1 = 1 ${nodeTypeClause}
+        ORDER BY t.name
+        LIMIT ?
+      `).all(...nodeTypes, limit);
+    }
+
+    logger.info(`Found ${rows.length} templates${options.query ? ` matching "${options.query}"` : ''}`);
+    return rows.map(row => {
+      const { workflow, description, ...template } = toTemplate(row);
+      return {
+        ...template,
+        description: description.length > SUMMARY_LENGTH ? `${description.slice(0, SUMMARY_LENGTH)}...` : description,
+        ...(row.rank !== undefined ? { relevance: Math.round(-row.rank * 1000) / 1000 } : {}),
+      };
+    });
+  }
+
+  /**
+   * A template including its workflow JSON
+   */
+  get(templateId: string): WorkflowTemplate | null {
+    const row = this.getDb().prepare('SELECT * FROM templates WHERE id = ?').get(templateId);
+    return row ? toTemplate(row) : null;
+  }
+
+  close() {
+    this.db?.close();
+  }
+
+  private getDb(): any {
+    if (!this.db) {
+      throw new Error(`Templates database not found at ${this.dbPath}. Build it from exported workflow JSON with: npm run build-templates -- <directory>`);
+    }
+    return this.db;
+  }
+}
+
+function toTemplate(row: any): WorkflowTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    tags: JSON.parse(row.tags || '[]'),
+    nodeTypes: JSON.parse(row.node_types || '[]'),
+    placeholders: JSON.parse(row.placeholders || '[]'),
+    workflow: JSON.parse(row.workflow_json),
+  };
+}
@@ -0,0 +1,217 @@
+import { N8nNodeService } from './node-service.js';
+import { WorkflowData } from './workflow-service.js';
+import { ValidationIssue } from './workflow-validator.js';
+import { buildAdjacency, findCycles, GraphEdge, parseConnections, STICKY_NOTE_TYPE } from '../utils/workflow-graph.js';
+import { logger } from '../utils/logger.js';
+
+export interface GraphAnalysis {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  triggers: string[];
+  cycles: string[][];
+  summary: {
+    nodes: number;
+    connections: number;
+    errors: number;
+    warnings: number;
+  };
+}
+
+/**
+ * Analyzes the connection graph of a workflow: dangling connections, orphaned
+ * nodes, cycles, missing triggers and invalid output indexes
+ */
+export class WorkflowGraphAnalyzer {
+  constructor(private nodeService: N8nNodeService) {}
+
+  analyze(workflow: Partial<WorkflowData>): GraphAnalysis {
+    const issues: ValidationIssue[] = [];
+    const nodes: any[] = (Array.isArray(workflow.nodes) ? workflow.nodes : [])
+      .filter(n => n && n.type !== STICKY_NOTE_TYPE);
+    const nodesByName = new Map<string, any>(nodes.map(n => [n.name, n]));
+    const edges = parseConnections(workflow.connections);
+
+    // Look each node type/version up once; getNodeInfo parses the stored JSON columns
+    const infoByNode = new Map<any, any>();
+    const infoByKey = new Map<string, any>();
+    for (const node of nodes) {
+      if (!node.type) continue;
+      const key = `${node.type}@${node.typeVersion}`;
+      if (!infoByKey.has(key)) {
+        infoByKey.set(key, this.getNodeInfo(node));
+      }
+      infoByNode.set(node, infoByKey.get(key));
+    }
+
+    // Dangling connections: source or target missing from the node list
+    for (const edge of edges) {
+      if (!nodesByName.has(edge.source)) {
+        issues.push({
+          severity: 'error',
+          node: edge.source,
+          path: `connections.${edge.source}`,
+          message: `Connection source "${edge.source}" does not exist in the workflow`,
+          suggestion: 'Remove the connection or rename it to match an existing node name',
+        });
+      }
+      if (!nodesByName.has(edge.target)) {
+        issues.push({
+          severity: 'error',
+          node: edge.source,
+          path: `connections.${edge.source}.${edge.type}[${edge.outputIndex}]`,
+          message: `Connection from "${edge.source}" points to non-existent node "${edge.target}"`,
+          suggestion: 'Point the connection at an existing node name (connections use node names, not IDs)',
+        });
+      }
+    }
+
+    // Output indexes beyond the number of outputs a node has
+    for (const edge of edges) {
+      const node = nodesByName.get(edge.source);
+      if (!node || edge.type !== 'main') continue;
+
+      const info = infoByNode.get(node);
+      const outputCount = getMainOutputCount(node, info);
+      if (outputCount !== null && edge.outputIndex >= outputCount) {
+        const outputNames = Array.isArray(info?.output_names_list) ? info.output_names_list as string[] : null;
+        issues.push({
+          severity: 'error',
+          node: edge.source,
+          nodeType: node.type,
+          path: `connections.${edge.source}.main[${edge.outputIndex}]`,
+          message: `"${edge.source}" has ${outputCount} output(s) but a connection uses output index ${edge.outputIndex}`,
+          suggestion: outputNames
+            ? `Use an output index between 0 and ${outputCount - 1} (${outputNames.map((n, i) => `${i}=${n}`).join(', ')})`
+            : `Use an output index between 0 and ${outputCount - 1}`,
+        });
+      }
+    }
+
+    // Triggers and reachability
+    const triggers = nodes.filter(n => isTrigger(n, infoByNode.get(n))).map(n => n.name);
+    if (nodes.length > 0 && triggers.length === 0) {
+      issues.push({
+        severity: 'warning',
+        node: '',
+        path: 'nodes',
+        message: 'Workflow has no trigger node and can only run when called by another workflow or manually',
+        suggestion: 'Add a trigger such as "n8n-nodes-base.manualTrigger", "n8n-nodes-base.webhook" or "n8n-nodes-base.scheduleTrigger"',
+      });
+    }
+
+    if (triggers.length > 0) {
+      const reachable = this.findReachable(triggers, edges);
+      for (const node of nodes) {
+        if (reachable.has(node.name) || node.disabled) continue;
+        issues.push({
+          severity: 'warning',
+          node: node.name,
+          nodeType: node.type,
+          path: 'connections',
+          message: `Node "${node.name}" is not reachable from any trigger and will never run`,
+          suggestion: 'Connect it downstream of a trigger or remove it',
+        });
+      }
+    }
+
+    // Cycles are legitimate for loops (e.g. Loop Over Items) but are worth flagging
+    const cycles = findCycles(edges.filter(e => nodesByName.has(e.source) && nodesByName.has(e.target)));
+    for (const cycle of cycles) {
+      issues.push({
+        severity: 'warning',
+        node: cycle[0],
+        path: 'connections',
+        message: `Cycle detected: ${[...cycle, cycle[0]].join(' -> ')}`,
+        suggestion: 'Make sure the loop has an exit condition (e.g. Loop Over Items "done" output or an If node)',
+      });
+    }
+
+    const errors = issues.filter(i => i.severity === 'error');
+    const warnings = issues.filter(i => i.severity === 'warning');
+
+    logger.info(`Analyzed workflow graph: ${nodes.length} nodes, ${edges.length} connections, ${errors.length} errors, ${warnings.length} warnings`);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      triggers,
+      cycles,
+      summary: {
+        nodes: nodes.length,
+        connections: edges.length,
+        errors: errors.length,
+        warnings: warnings.length,
+      },
+    };
+  }
+
+  /**
+   * Node info for the node's typeVersion, falling back to the latest version
+   * when the typeVersion is missing or unknown (reported by validate_workflow)
+   */
+  private getNodeInfo(node: any): any {
+    if (node.typeVersion !== undefined) {
+      try {
+        return this.nodeService.getNodeInfo(node.type, Number(node.typeVersion));
+      } catch {
+        // Unknown typeVersion
+      }
+    }
+    return this.nodeService.getNodeInfo(node.type);
+  }
+
+  /**
+   * Nodes reachable from the triggers through main connections. Sub-nodes that
+   * feed a reachable node through AI connections (models, tools, memory) count as reachable.
+   */
+  private findReachable(triggers: string[], edges: GraphEdge[]): Set<string> {
+    const adjacency = buildAdjacency(edges);
+    const reachable = new Set<string>();
+    const stack = [...triggers];
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (reachable.has(current)) continue;
+      reachable.add(current);
+      stack.push(...(adjacency.get(current) || []));
+    }
+
+    const subNodeEdges = edges.filter(e => e.type !== 'main');
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const edge of subNodeEdges) {
+        if (reachable.has(edge.target) && !reachable.has(edge.source)) {
+          reachable.add(edge.source);
+          changed = true;
+        }
+      }
+    }
+
+    return reachable;
+  }
+}
+
+function isTrigger(node: any, info: any): boolean {
+  if (info) {
+    return info.is_trigger === 1;
+  }
+  // Not in the database - fall back to the naming convention
+  return /trigger$/i.test(node.type) || /\.webhook$/i.test(node.type);
+}
+
+/**
+ * Number of main outputs for a node, or null when it cannot be determined
+ * offline (unknown node or outputs computed from parameters at runtime)
+ */
+function getMainOutputCount(node: any, info: any): number | null {
+  const outputs = info?.outputs_list;
+  if (!Array.isArray(outputs)) return null;
+
+  const mainOutputs = outputs.filter((o: any) => o === 'main' || o?.type === 'main').length;
+
+  // "On Error: Continue (using error output)" adds an extra output
+  return node.onError === 'continueErrorOutput' ? mainOutputs + 1 : mainOutputs;
+}
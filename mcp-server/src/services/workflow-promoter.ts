@@ -0,0 +1,281 @@
+import { InstanceContext } from './instance-registry.js';
+import { N8nApiError, toWorkflowData } from './workflow-service.js';
+import { PromotionMappingStore } from './promotion-store.js';
+import { diffWorkflows } from '../utils/workflow-diff.js';
+import { logger } from '../utils/logger.js';
+
+export interface PromotionOptions {
+  /** Only report what would change (default: true) */
+  dryRun?: boolean;
+  /** Target workflow to overwrite, instead of the stored mapping or a name match */
+  targetWorkflowId?: string;
+  /** Apply even when some credentials or sub-workflows could not be mapped */
+  force?: boolean;
+}
+
+export type ReferenceStatus = 'mapped' | 'missing' | 'ambiguous' | 'skipped';
+
+export interface CredentialRemap {
+  node: string;
+  type: string;
+  source: { id?: string; name?: string };
+  target: { id: string; name: string } | null;
+  status: ReferenceStatus;
+}
+
+export interface SubWorkflowRemap {
+  /** Node name, or "settings.errorWorkflow" */
+  node: string;
+  sourceWorkflowId: string;
+  sourceWorkflowName?: string;
+  targetWorkflowId: string | null;
+  status: ReferenceStatus;
+  note?: string;
+}
+
+// Nodes that reference another workflow by ID through their workflowId parameter
+const SUB_WORKFLOW_NODE_TYPES = [
+  'n8n-nodes-base.executeWorkflow',
+  '@n8n/n8n-nodes-langchain.toolWorkflow',
+];
+
+/**
+ * Copies a workflow from one instance to another, remapping credential and
+ * sub-workflow IDs that differ between instances
+ */
+export class WorkflowPromoter {
+  constructor(private mappingStore: PromotionMappingStore) {}
+
+  async promote(source: InstanceContext, target: InstanceContext, workflowId: string, options: PromotionOptions = {}) {
+    const sourceName = source.profile.name;
+    const targetName = target.profile.name;
+    if (sourceName === targetName) {
+      throw new Error('Source and target instance are the same');
+    }
+
+    const dryRun = options.dryRun !== false;
+    const sourceWorkflow: any = await source.workflowService.getWorkflow(workflowId);
+    const promoted = structuredClone(toWorkflowData(sourceWorkflow));
+
+    const targetWorkflows: any[] = (await target.workflowService.listWorkflows()).data;
+    const { workflow: targetWorkflow, matchedBy } = await this.findTargetWorkflow(
+      source, target, sourceWorkflow, targetWorkflows, options.targetWorkflowId
+    );
+
+    const credentials = await this.remapCredentials(source, target, promoted.nodes);
+    const subWorkflows = await this.remapSubWorkflows(source, target, promoted, targetWorkflows);
+
+    const unresolved = [
+      ...credentials.filter(c => c.status === 'missing' || c.status === 'ambiguous'),
+      ...subWorkflows.filter(s => s.status === 'missing' || s.status === 'ambiguous'),
+    ];
+
+    const plan = {
+      dryRun,
+      action: targetWorkflow ? 'update' : 'create',
+      source: {
+        instance: sourceName,
+        workflowId: sourceWorkflow.id,
+        name: sourceWorkflow.name,
+        versionId: sourceWorkflow.versionId,
+      },
+      target: {
+        instance: targetName,
+        workflowId: targetWorkflow?.id ?? null,
+        name: targetWorkflow?.name ?? null,
+        versionId: targetWorkflow?.versionId ?? null,
+        // n8n keeps an active workflow active when it is updated; new workflows start inactive
+        active: targetWorkflow?.active ?? false,
+        matchedBy,
+      },
+      credentials,
+      subWorkflows,
+      unresolved: unresolved.length,
+      diff: diffWorkflows(targetWorkflow ?? { nodes: [], connections: {} }, promoted),
+    };
+
+    if (dryRun) {
+      return plan;
+    }
+
+    if (unresolved.length > 0 && !options.force) {
+      const details = unresolved.map(u =>
+        'type' in u
+          ? `- ${u.node}: credential "${u.source.name}" (${u.type}) is ${u.status} on ${targetName}`
+          : `- ${u.node}: sub-workflow ${u.sourceWorkflowId}${u.sourceWorkflowName ? ` ("${u.sourceWorkflowName}")` : ''} is ${u.status} on ${targetName}`
+      ).join('\n');
+      throw new Error(`Promotion not applied, unresolved references:\n${details}\nCreate them on the target instance or pass force: true to promote anyway.`);
+    }
+
+    const saved: any = targetWorkflow
+      ? await target.workflowService.updateWorkflow(targetWorkflow.id, promoted, { expectedVersionId: targetWorkflow.versionId })
+      : await target.workflowService.createWorkflow(promoted);
+
+    this.mappingStore.set(sourceName, sourceWorkflow.id, targetName, saved.id);
+    logger.info(`Promoted workflow ${sourceWorkflow.id} from ${sourceName} to ${targetName} as ${saved.id}`);
+
+    return {
+      ...plan,
+      applied: true,
+      target: {
+        ...plan.target,
+        workflowId: saved.id,
+        name: saved.name,
+        versionId: saved.versionId,
+        active: saved.active ?? plan.target.active,
+      },
+    };
+  }
+
+  /**
+   * Target workflow to overwrite: explicit ID, then the stored mapping, then a unique name match
+   */
+  private async findTargetWorkflow(
+    source: InstanceContext,
+    target: InstanceContext,
+    sourceWorkflow: any,
+    targetWorkflows: any[],
+    explicitId?: string
+  ): Promise<{ workflow: any | null; matchedBy: 'explicit' | 'mapping' | 'name' | null }> {
+    if (explicitId) {
+      return { workflow: await target.workflowService.getWorkflow(explicitId), matchedBy: 'explicit' };
+    }
+
+    const mappedId = this.mappingStore.get(source.profile.name, sourceWorkflow.id, target.profile.name);
+    if (mappedId) {
+      try {
+        return { workflow: await target.workflowService.getWorkflow(mappedId), matchedBy: 'mapping' };
+      } catch (error) {
+        if (!(error instanceof N8nApiError && error.status === 404)) throw error;
+        logger.warn(`Mapped target workflow ${mappedId} no longer exists, matching by name`);
+      }
+    }
+
+    const byName = targetWorkflows.filter(w => w.name === sourceWorkflow.name && !w.isArchived);
+    if (byName.length > 1) {
+      throw new Error(
+        `Several workflows on ${target.profile.name} are named "${sourceWorkflow.name}" (${byName.map(w => w.id).join(', ')}). Pass targetWorkflowId to choose one.`
+      );
+    }
+    if (byName.length === 1) {
+      return { workflow: await target.workflowService.getWorkflow(byName[0].id), matchedBy: 'name' };
+    }
+
+    return { workflow: null, matchedBy: null };
+  }
+
+  /**
+   * Point node credentials at the target credential with the same name and type
+   */
+  private async remapCredentials(source: InstanceContext, target: InstanceContext, nodes: any[]): Promise<CredentialRemap[]> {
+    const nodesWithCredentials = nodes.filter(n => n.credentials && Object.keys(n.credentials).length > 0);
+    if (nodesWithCredentials.length === 0) return [];
+
+    const [sourceCredentials, targetCredentials] = await Promise.all([
+      source.workflowService.listCredentials(),
+      target.workflowService.listCredentials(),
+    ]);
+
+    const remaps: CredentialRemap[] = [];
+    for (const node of nodesWithCredentials) {
+      for (const [type, ref] of Object.entries<any>(node.credentials)) {
+        const sourceCredential = sourceCredentials.find(c => ref?.id && c.id === ref.id);
+        const name = sourceCredential?.name ?? ref?.name;
+        const matches = targetCredentials.filter(c => c.type === type && c.name === name);
+
+        const remap: CredentialRemap = {
+          node: node.name,
+          type,
+          source: { id: ref?.id, name },
+          target: null,
+          status: matches.length === 1 ? 'mapped' : matches.length === 0 ? 'missing' : 'ambiguous',
+        };
+        if (matches.length === 1) {
+          remap.target = { id: matches[0].id, name: matches[0].name };
+          node.credentials[type] = { id: matches[0].id, name: matches[0].name };
+        }
+        remaps.push(remap);
+      }
+    }
+
+    return remaps;
+  }
+
+  /**
+   * Rewrite workflow IDs used by Execute Workflow / workflow tool nodes and the error workflow setting
+   */
+  private async remapSubWorkflows(
+    source: InstanceContext,
+    target: InstanceContext,
+    workflow: any,
+    targetWorkflows: any[]
+  ): Promise<SubWorkflowRemap[]> {
+    const remaps: SubWorkflowRemap[] = [];
+
+    const resolve = async (node: string, sourceId: string): Promise<SubWorkflowRemap> => {
+      const mappedId = this.mappingStore.get(source.profile.name, sourceId, target.profile.name);
+      if (mappedId && targetWorkflows.some(w => w.id === mappedId)) {
+        return { node, sourceWorkflowId: sourceId, targetWorkflowId: mappedId, status: 'mapped' };
+      }
+
+      let sourceName: string | undefined;
+      try {
+        sourceName = (await source.workflowService.getWorkflow(sourceId) as any).name;
+      } catch (error) {
+        if (!(error instanceof N8nApiError && error.status === 404)) throw error;
+        return { node, sourceWorkflowId: sourceId, targetWorkflowId: null, status: 'missing', note: 'Not found on the source instance' };
+      }
+
+      const matches = targetWorkflows.filter(w => w.name === sourceName && !w.isArchived);
+      return {
+        node,
+        sourceWorkflowId: sourceId,
+        sourceWorkflowName: sourceName,
+        targetWorkflowId: matches.length === 1 ? matches[0].id : null,
+        status: matches.length === 1 ? 'mapped' : matches.length === 0 ? 'missing' : 'ambiguous',
+      };
+    };
+
+    for (const node of workflow.nodes) {
+      if (!SUB_WORKFLOW_NODE_TYPES.includes(node.type)) continue;
+      const parameters = node.parameters || {};
+      if (parameters.source && parameters.source !== 'database') continue;
+
+      const ref = parameters.workflowId;
+      const sourceId = typeof ref === 'object' && ref !== null ? ref.value : ref;
+      if (sourceId === undefined || sourceId === null || sourceId === '') continue;
+
+      if (typeof sourceId === 'string' && sourceId.startsWith('=')) {
+        remaps.push({
+          node: node.name,
+          sourceWorkflowId: sourceId,
+          targetWorkflowId: null,
+          status: 'skipped',
+          note: 'Workflow ID is an expression and is left unchanged',
+        });
+        continue;
+      }
+
+      const remap = await resolve(node.name, String(sourceId));
+      if (remap.targetWorkflowId) {
+        if (typeof ref === 'object' && ref !== null) {
+          parameters.workflowId = { ...ref, value: remap.targetWorkflowId };
+        } else {
+          parameters.workflowId = remap.targetWorkflowId;
+        }
+      }
+      remaps.push(remap);
+    }
+
+    const errorWorkflow = workflow.settings?.errorWorkflow;
+    if (errorWorkflow) {
+      const remap = await resolve('settings.errorWorkflow', String(errorWorkflow));
+      if (remap.targetWorkflowId) {
+        workflow.settings.errorWorkflow = remap.targetWorkflowId;
+      }
+      remaps.push(remap);
+    }
+
+    return remaps;
+  }
+}
@@ -0,0 +1,253 @@
+import { randomUUID } from 'crypto';
+import { N8nNodeService } from './node-service.js';
+import { WorkflowData } from './workflow-service.js';
+import { NON_VALUE_TYPES, getVisibleProperties } from '../utils/display-options.js';
+import { layoutWorkflow } from '../utils/workflow-layout.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * One node of a scaffold spec. `node` is a node type ("n8n-nodes-base.slack",
+ * "slack") or a keyword ("send email") looked up in the node database.
+ */
+export interface ScaffoldStep {
+  node: string;
+  /** Node name in the workflow (default: the node's display name) */
+  name?: string;
+  resource?: string;
+  operation?: string;
+  parameters?: Record<string, any>;
+  /**
+   * Steps run from each output of a branching node, keyed by output index or
+   * output name (e.g. {"true": [...], "false": [...]} for If)
+   */
+  branches?: Record<string, ScaffoldStep[]>;
+  /** AI sub-nodes (language model, memory, tools) attached to this node */
+  subNodes?: Array<ScaffoldStep & { connectionType?: string }>;
+}
+
+export interface ScaffoldSpec {
+  name: string;
+  trigger: ScaffoldStep;
+  /** Steps run in order after the trigger */
+  steps?: ScaffoldStep[];
+  settings?: Record<string, any>;
+}
+
+export interface ScaffoldedNode {
+  name: string;
+  type: string;
+  typeVersion: number;
+  /** What `node` in the spec was matched by: the type resolver or a keyword search */
+  matchedBy: string;
+  input: string;
+}
+
+/**
+ * Builds workflow JSON from a high-level spec using the node database:
+ * resolved node types, latest typeVersions, default parameter values,
+ * generated IDs, the connections map and laid-out positions
+ */
+export class WorkflowScaffolder {
+  constructor(private nodeService: N8nNodeService) {}
+
+  scaffold(spec: ScaffoldSpec) {
+    if (!spec?.name) throw new Error('Spec needs a name');
+    if (!spec.trigger?.node) throw new Error('Spec needs a trigger with a node');
+
+    const state: ScaffoldState = {
+      nodes: [],
+      connections: {},
+      resolved: [],
+      warnings: [],
+      names: new Set(),
+      outputNames: new Map(),
+    };
+
+    const trigger = this.addNode(state, spec.trigger, true);
+    this.addChain(state, spec.steps || [], { node: trigger.name, outputIndex: 0 });
+
+    const { workflow } = layoutWorkflow<WorkflowData>({
+      name: spec.name,
+      nodes: state.nodes,
+      connections: state.connections,
+      settings: spec.settings || { executionOrder: 'v1' },
+    });
+
+    logger.info(`Scaffolded workflow "${spec.name}" with ${state.nodes.length} nodes`);
+    return { workflow, nodes: state.resolved, warnings: state.warnings };
+  }
+
+  /**
+   * Add steps one after another starting from `from`; a step with branches ends the chain
+   */
+  private addChain(state: ScaffoldState, steps: ScaffoldStep[], from: { node: string; outputIndex: number }) {
+    let previous = from;
+
+    steps.forEach((step, i) => {
+      if (i > 0 && steps[i - 1].branches) {
+        throw new Error(`"${step.name || step.node}" follows branching step "${steps[i - 1].name || steps[i - 1].node}"; put it inside one of its branches`);
+      }
+
+      const node = this.addNode(state, step, false);
+      connect(state, previous.node, previous.outputIndex, node.name, 'main');
+      previous = { node: node.name, outputIndex: 0 };
+
+      if (step.branches) {
+        const outputNames = state.outputNames.get(node.name) || [];
+        for (const [key, branch] of Object.entries(step.branches)) {
+          const outputIndex = resolveOutput(node.name, key, outputNames);
+          this.addChain(state, branch, { node: node.name, outputIndex });
+        }
+      }
+    });
+  }
+
+  private addNode(state: ScaffoldState, step: ScaffoldStep, isTrigger: boolean): any {
+    const { info, matchedBy } = this.resolveNode(step.node, isTrigger);
+    const typeVersion: number = info.latest_version ?? 1;
+    const fullInfo: any = this.nodeService.getNodeInfo(info.node_type, typeVersion) ?? info;
+
+    if (step.operation) {
+      // Throws with the available resources/operations when the pair does not exist
+      this.nodeService.getNodeOperation(info.node_type, step.resource, step.operation, typeVersion);
+    }
+
+    const name = uniqueName(state.names, step.name || fullInfo.display_name || info.node_type);
+    const parameters = buildParameters(fullInfo, step, typeVersion, name, state.warnings);
+    const node: any = {
+      id: randomUUID(),
+      name,
+      type: fullInfo.workflow_node_type,
+      typeVersion,
+      // Set by the layout once all nodes are connected
+      position: [0, 0],
+      parameters,
+    };
+
+    // Webhook-based nodes are addressed by webhookId; give them a unique path too
+    if (fullInfo.is_webhook === 1 || /webhook|formTrigger/i.test(info.node_type)) {
+      node.webhookId = randomUUID();
+      if ('path' in parameters && !parameters.path) {
+        parameters.path = node.webhookId;
+      }
+    }
+
+    state.nodes.push(node);
+    state.resolved.push({ name, type: node.type, typeVersion, matchedBy, input: step.node });
+    if (Array.isArray(fullInfo.output_names_list)) {
+      state.outputNames.set(name, fullInfo.output_names_list);
+    }
+
+    for (const subStep of step.subNodes || []) {
+      const subNode = this.addNode(state, subStep, false);
+      const subInfo: any = this.nodeService.getNodeInfo(subNode.type);
+      const connectionType = subStep.connectionType
+        || (subInfo?.outputs_list || []).map((o: any) => (typeof o === 'string' ? o : o?.type)).find((t: string) => t && t !== 'main');
+      if (!connectionType) {
+        throw new Error(`Cannot tell how "${subNode.name}" connects to "${name}"; set connectionType (e.g. ai_languageModel, ai_tool, ai_memory)`);
+      }
+      connect(state, subNode.name, 0, name, connectionType);
+    }
+
+    return node;
+  }
+
+  /**
+   * Match a node type, name or alias first; fall back to a keyword search
+   */
+  private resolveNode(input: string, isTrigger: boolean): { info: any; matchedBy: string } {
+    const candidates = isTrigger ? [input, `${input} trigger`] : [input];
+    for (const candidate of candidates) {
+      const resolution = this.nodeService.resolveNodeType(candidate);
+      if (!resolution.nodeType) continue;
+      const info: any = this.nodeService.getNodeInfo(resolution.nodeType);
+      if (info && (!isTrigger || info.is_trigger === 1)) {
+        return { info, matchedBy: resolution.matchedBy ?? 'exact' };
+      }
+    }
+
+    const results = this.nodeService.searchNodes(input, 1, isTrigger ? { isTrigger: true } : {});
+    if (results.length > 0) {
+      return { info: this.nodeService.getNodeInfo(results[0].node_type), matchedBy: 'search' };
+    }
+
+    const suggestions = this.nodeService.resolveNodeType(input).suggestions.map(s => s.workflowNodeType);
+    throw new Error(
+      `No ${isTrigger ? 'trigger ' : ''}node found for "${input}"` +
+      (suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : '. Use search_n8n_nodes to find the node type.')
+    );
+  }
+}
+
+interface ScaffoldState {
+  nodes: any[];
+  connections: Record<string, any>;
+  resolved: ScaffoldedNode[];
+  warnings: string[];
+  names: Set<string>;
+  /** Output names of branching nodes (e.g. If: ["true", "false"]) */
+  outputNames: Map<string, string[]>;
+}
+
+/**
+ * Parameters for the node: the given values plus the defaults of every
+ * parameter visible with them (as the n8n editor fills them in)
+ */
+function buildParameters(info: any, step: ScaffoldStep, typeVersion: number, nodeName: string, warnings: string[]): Record<string, any> {
+  const given: Record<string, any> = {
+    ...(step.resource !== undefined ? { resource: step.resource } : {}),
+    ...(step.operation !== undefined ? { operation: step.operation } : {}),
+    ...(step.parameters || {}),
+  };
+  const properties: any[] = info.properties || [];
+  const visible = getVisibleProperties(properties, { parameters: given, typeVersion })
+    .filter(p => !NON_VALUE_TYPES.includes(p.type));
+
+  const parameters: Record<string, any> = {};
+  for (const property of visible) {
+    if (property.name in parameters) continue;
+    if (property.name in given) {
+      parameters[property.name] = given[property.name];
+    } else if (property.default !== undefined) {
+      parameters[property.name] = structuredClone(property.default);
+    }
+  }
+
+  const known = new Set(properties.map(p => p.name));
+  for (const [key, value] of Object.entries(given)) {
+    if (key in parameters) continue;
+    parameters[key] = value;
+    warnings.push(known.has(key)
+      ? `${nodeName}: parameter "${key}" is not used with the other parameters given`
+      : `${nodeName}: "${key}" is not a parameter of ${info.workflow_node_type}`);
+  }
+  return parameters;
+}
+
+function resolveOutput(nodeName: string, key: string, outputNames: string[]): number {
+  if (/^\d+$/.test(key)) return Number(key);
+  const index = outputNames.findIndex(n => n.toLowerCase() === key.toLowerCase());
+  if (index < 0) {
+    throw new Error(`"${nodeName}" has no output named "${key}"${outputNames.length ? ` (outputs: ${outputNames.join(', ')})` : '; use the output index'}`);
+  }
+  return index;
+}
+
+function connect(state: ScaffoldState, source: string, outputIndex: number, target: string, type: string) {
+  const outputs: any[][] = state.connections[source]?.[type] ?? [];
+  while (outputs.length <= outputIndex) outputs.push([]);
+  outputs[outputIndex].push({ node: target, type, index: 0 });
+  state.connections[source] = { ...(state.connections[source] || {}), [type]: outputs };
+}
+
+/**
+ * n8n-style unique names: "Slack", "Slack1", "Slack2", ...
+ */
+function uniqueName(names: Set<string>, base: string): string {
+  let name = base;
+  for (let i = 1; names.has(name); i++) {
+    name = `${base}${i}`;
+  }
+  names.add(name);
+  return name;
+}
@@ -1,4 +1,6 @@
 import { logger } from '../utils/logger.js';
+import { SnapshotAction, WorkflowSnapshotStore } from './snapshot-store.js';
+import { diffWorkflows } from '../utils/workflow-diff.js';
 
 export interface WorkflowData {
   name: string;
@@ -7,13 +9,93 @@ export interface WorkflowData {
   settings?: any;
 }
 
+/**
+ * Error returned by the n8n API, keeping the HTTP status for callers that branch on it
+ */
+export class N8nApiError extends Error {
+  constructor(public status: number, body: string) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = 'N8nApiError';
+  }
+}
+
+/**
+ * A write was refused because the workflow changed remotely since the caller read it
+ */
+export class WorkflowConflictError extends Error {
+  constructor(
+    public workflowId: string,
+    public expectedVersionId: string,
+    public actualVersionId: string | null,
+    public remoteChanges: any
+  ) {
+    super(
+      `Workflow ${workflowId} was modified since it was read (expected versionId ${expectedVersionId}, ` +
+      `current ${actualVersionId}). Fetch it again, re-apply your changes and retry.`
+    );
+    this.name = 'WorkflowConflictError';
+  }
+}
+
+/**
+ * One side of a workflow comparison: a live workflow, a local snapshot or proposed workflow JSON
+ */
+export interface WorkflowSource {
+  workflowId?: string;
+  snapshotId?: number;
+  workflow?: any;
+}
+
+/**
+ * Options shared by every write path
+ */
+export interface WriteOptions {
+  /** Refuse the write unless the remote workflow still has this versionId */
+  expectedVersionId?: string;
+}
+
+/**
+ * Pick the fields the n8n API accepts when creating or updating a workflow
+ */
+export function toWorkflowData(workflow: any): WorkflowData {
+  return {
+    name: workflow.name,
+    nodes: workflow.nodes,
+    connections: workflow.connections,
+    settings: workflow.settings,
+  };
+}
+
+/**
+ * Execution list filters. status and workflowId are passed to n8n; the
+ * startedAfter/startedBefore range (ISO dates) is applied client-side.
+ */
+export interface ExecutionFilter {
+  workflowId?: string;
+  status?: 'error' | 'success' | 'waiting' | 'running' | 'canceled';
+  startedAfter?: string;
+  startedBefore?: string;
+  /** Page size (default: 10, max: 250) */
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+}
+
+// Workflow versions kept in memory to explain version conflicts
+const MAX_SEEN_VERSIONS = 50;
+// Largest page the n8n executions endpoint accepts
+const MAX_EXECUTIONS_PAGE = 250;
+
 export class N8nWorkflowService {
   private apiUrl: string;
   private apiKey: string;
+  private snapshotStore?: WorkflowSnapshotStore;
+  private seenVersions = new Map<string, any>();
 
-  constructor(apiUrl: string, apiKey: string) {
+  constructor(apiUrl: string, apiKey: string, snapshotStore?: WorkflowSnapshotStore) {
     this.apiUrl = apiUrl.replace(/\/$/, ''); // Remove trailing slash
     this.apiKey = apiKey;
+    this.snapshotStore = snapshotStore;
   }
 
   private async request(method: string, endpoint: string, data?: any) {
@@ -38,7 +120,7 @@ export class N8nWorkflowService {
       
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
+        throw new N8nApiError(response.status, error);
       }
 
       return await response.json();
@@ -144,7 +226,9 @@ export class N8nWorkflowService {
   }
 
   async getWorkflow(workflowId: string) {
-    return this.request('GET', `workflows/${workflowId}`);
+    const workflow: any = await this.request('GET', `workflows/${workflowId}`);
+    this.rememberVersion(workflow);
+    return workflow;
   }
 
   async getWorkflowByName(workflowName: string) {
@@ -162,31 +246,300 @@ export class N8nWorkflowService {
     return this.request('POST', 'workflows', workflow);
   }
 
-  async updateWorkflow(workflowId: string, workflow: WorkflowData) {
+  async updateWorkflow(workflowId: string, workflow: WorkflowData, options: WriteOptions = {}) {
+    await this.prepareWrite(workflowId, 'update', options);
     return this.request('PUT', `workflows/${workflowId}`, workflow);
   }
 
-  async deleteWorkflow(workflowId: string) {
+  async deleteWorkflow(workflowId: string, options: WriteOptions = {}) {
+    await this.prepareWrite(workflowId, 'delete', options);
     return this.request('DELETE', `workflows/${workflowId}`);
   }
 
-  async toggleWorkflow(workflowId: string, active: boolean) {
+  async toggleWorkflow(workflowId: string, active: boolean, options: WriteOptions = {}) {
+    await this.prepareWrite(workflowId, 'toggle', options);
     return this.request('PATCH', `workflows/${workflowId}`, { active });
   }
 
+  /**
+   * List credentials with id, name and type only; secret data is never returned
+   */
+  async listCredentials() {
+    const credentials: any[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const params = new URLSearchParams({ limit: '100' });
+      if (cursor) {
+        params.append('cursor', cursor);
+      }
+      const response: any = await this.request('GET', `credentials?${params.toString()}`);
+      credentials.push(...(Array.isArray(response) ? response : response.data || []));
+      cursor = Array.isArray(response) ? null : response.nextCursor || null;
+    } while (cursor);
+
+    return credentials.map(c => ({
+      id: c.id,
+      name: c.name,
+      type: c.type,
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+    }));
+  }
+
+  /**
+   * JSON schema of a credential type's fields (no credential data)
+   */
+  async getCredentialSchema(credentialType: string) {
+    return this.request('GET', `credentials/schema/${encodeURIComponent(credentialType)}`);
+  }
+
+  listSnapshots(workflowId: string, limit: number = 50) {
+    return this.requireSnapshotStore().list(workflowId, limit);
+  }
+
+  /**
+   * Compare two snapshots, or a snapshot with the live workflow when no second snapshot is given
+   */
+  async diffSnapshots(fromSnapshotId: number, toSnapshotId?: number) {
+    const from = this.getSnapshot(fromSnapshotId);
+    const to: WorkflowSource = toSnapshotId !== undefined
+      ? { snapshotId: toSnapshotId }
+      : { workflowId: from.workflow_id };
+
+    return {
+      workflowId: from.workflow_id,
+      ...await this.diffWorkflows({ snapshotId: fromSnapshotId }, to),
+    };
+  }
+
+  /**
+   * Semantic diff between any two workflow sources (live workflow, snapshot or proposed JSON)
+   */
+  async diffWorkflows(from: WorkflowSource, to: WorkflowSource) {
+    const [fromResolved, toResolved] = await Promise.all([
+      this.resolveWorkflowSource(from),
+      this.resolveWorkflowSource(to),
+    ]);
+    const diff = diffWorkflows(fromResolved.workflow, toResolved.workflow);
+    return {
+      from: fromResolved.label,
+      to: toResolved.label,
+      ...diff,
+    };
+  }
+
+  /**
+   * Get a snapshot including its workflow JSON
+   */
+  getSnapshot(snapshotId: number) {
+    const snapshot = this.requireSnapshotStore().get(snapshotId);
+    if (!snapshot) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restore a workflow from a snapshot. Updates the workflow if it still exists,
+   * otherwise re-creates it (n8n assigns a new ID to re-created workflows).
+   */
+  async restoreSnapshot(snapshotId: number, options: WriteOptions = {}) {
+    const snapshot = this.getSnapshot(snapshotId);
+
+    const data = toWorkflowData(snapshot.workflow);
+
+    try {
+      await this.getWorkflow(snapshot.workflow_id);
+    } catch (error) {
+      if (error instanceof N8nApiError && error.status === 404) {
+        const created: any = await this.request('POST', 'workflows', data);
+        logger.info(`Re-created deleted workflow ${snapshot.workflow_id} as ${created.id} from snapshot ${snapshotId}`);
+        return {
+          action: 'recreated',
+          snapshotId,
+          originalWorkflowId: snapshot.workflow_id,
+          workflowId: created.id,
+          workflow: created,
+        };
+      }
+      throw error;
+    }
+
+    await this.prepareWrite(snapshot.workflow_id, 'restore', options);
+    const updated = await this.request('PUT', `workflows/${snapshot.workflow_id}`, data);
+    return {
+      action: 'updated',
+      snapshotId,
+      workflowId: snapshot.workflow_id,
+      workflow: updated,
+    };
+  }
+
+  /**
+   * Run before every write: refuse with a WorkflowConflictError when the remote
+   * versionId no longer matches the expected one, then snapshot the current
+   * workflow. A failed fetch aborts the write.
+   */
+  private async prepareWrite(workflowId: string, action: SnapshotAction, options: WriteOptions) {
+    const { expectedVersionId } = options;
+    if (!this.snapshotStore && !expectedVersionId) return;
+
+    const current: any = await this.getWorkflow(workflowId);
+    if (expectedVersionId && current.versionId !== expectedVersionId) {
+      throw new WorkflowConflictError(
+        workflowId,
+        expectedVersionId,
+        current.versionId ?? null,
+        this.describeRemoteChanges(workflowId, expectedVersionId, current)
+      );
+    }
+
+    this.snapshotStore?.record(action, current);
+  }
+
+  /**
+   * Summarize what changed remotely since the expected version, using a copy of
+   * that version read earlier in this process or recorded as a snapshot
+   */
+  private describeRemoteChanges(workflowId: string, expectedVersionId: string, current: any) {
+    const base = this.seenVersions.get(`${workflowId}@${expectedVersionId}`)
+      ?? this.snapshotStore?.findByVersion(workflowId, expectedVersionId)?.workflow;
+
+    const remote = { versionId: current.versionId, updatedAt: current.updatedAt };
+    if (!base) {
+      return {
+        ...remote,
+        note: `Version ${expectedVersionId} is not known locally, so the changes cannot be listed. Use get_workflow to see the current state.`,
+      };
+    }
+
+    const { summary, ...changes } = diffWorkflows(base, current);
+    return { ...remote, summary, ...changes };
+  }
+
+  /**
+   * Keep recently read workflow versions so conflicts can be explained
+   */
+  private rememberVersion(workflow: any) {
+    if (!workflow?.id || !workflow.versionId) return;
+    const key = `${workflow.id}@${workflow.versionId}`;
+    this.seenVersions.delete(key);
+    this.seenVersions.set(key, workflow);
+    if (this.seenVersions.size > MAX_SEEN_VERSIONS) {
+      this.seenVersions.delete(this.seenVersions.keys().next().value!);
+    }
+  }
+
+  private async resolveWorkflowSource(source: WorkflowSource): Promise<{ workflow: any; label: any }> {
+    const given = ['workflowId', 'snapshotId', 'workflow'].filter(key => (source as any)?.[key] !== undefined);
+    if (given.length !== 1) {
+      throw new Error('Each side of a diff needs exactly one of workflowId, snapshotId or workflow');
+    }
+
+    if (source.snapshotId !== undefined) {
+      const snapshot = this.getSnapshot(source.snapshotId);
+      return {
+        workflow: snapshot.workflow,
+        label: { snapshotId: snapshot.id, workflowId: snapshot.workflow_id, createdAt: snapshot.created_at, versionId: snapshot.version_id },
+      };
+    }
+
+    if (source.workflowId !== undefined) {
+      const workflow: any = await this.getWorkflow(source.workflowId);
+      return {
+        workflow,
+        label: { workflowId: source.workflowId, live: true, versionId: workflow.versionId, updatedAt: workflow.updatedAt },
+      };
+    }
+
+    return { workflow: source.workflow, label: { proposed: true } };
+  }
+
+  private requireSnapshotStore(): WorkflowSnapshotStore {
+    if (!this.snapshotStore) {
+      throw new Error('Workflow snapshots are not enabled');
+    }
+    return this.snapshotStore;
+  }
+
   async executeWorkflow(workflowId: string) {
     return this.request('POST', `workflows/${workflowId}/execute`);
   }
 
-  async getExecutions(workflowId?: string, limit: number = 10) {
-    const params = new URLSearchParams({ limit: limit.toString() });
-    if (workflowId) {
-      params.append('workflowId', workflowId);
-    }
-    return this.request('GET', `executions?${params.toString()}`);
+  /**
+   * One page of executions, newest first. Status is filtered by n8n; the date
+   * range is applied here, so a page can hold fewer than `limit` executions.
+   * Pass the returned nextCursor to get the next page.
+   */
+  async getExecutions(filter: ExecutionFilter = {}) {
+    const limit = Math.min(Math.max(1, filter.limit ?? 10), MAX_EXECUTIONS_PAGE);
+    const after = filter.startedAfter ? parseDate(filter.startedAfter, 'startedAfter') : null;
+    const before = filter.startedBefore ? parseDate(filter.startedBefore, 'startedBefore') : null;
+    let cursor = filter.cursor ?? null;
+    const data: any[] = [];
+
+    // Skip pages newer than the range instead of returning empty pages
+    do {
+      const params = new URLSearchParams({ limit: limit.toString() });
+      if (filter.workflowId) params.append('workflowId', filter.workflowId);
+      if (filter.status) params.append('status', filter.status);
+      if (cursor) params.append('cursor', cursor);
+
+      const response: any = await this.request('GET', `executions?${params.toString()}`);
+      const page: any[] = Array.isArray(response) ? response : response.data || [];
+      cursor = Array.isArray(response) ? null : response.nextCursor || null;
+
+      for (const execution of page) {
+        const startedAt = execution.startedAt ? new Date(execution.startedAt).getTime() : null;
+        if (startedAt !== null && after !== null && startedAt < after) {
+          // Executions are returned newest first: nothing older can match
+          cursor = null;
+          break;
+        }
+        if (startedAt !== null && before !== null && startedAt >= before) continue;
+        data.push(execution);
+      }
+    } while (data.length === 0 && cursor);
+
+    return { data, nextCursor: cursor };
   }
 
-  async getExecutionDetails(executionId: string) {
-    return this.request('GET', `executions/${executionId}`);
+  /**
+   * Every execution matching the filter, following cursors up to maxExecutions
+   */
+  async listExecutions(filter: Omit<ExecutionFilter, 'cursor' | 'limit'> = {}, maxExecutions: number = 5000) {
+    const executions: any[] = [];
+    let cursor: string | null = null;
+    let truncated = false;
+
+    do {
+      const page: { data: any[]; nextCursor: string | null } = await this.getExecutions({ ...filter, limit: MAX_EXECUTIONS_PAGE, ...(cursor ? { cursor } : {}) });
+      executions.push(...page.data);
+      cursor = page.nextCursor;
+      if (executions.length >= maxExecutions && cursor) {
+        truncated = true;
+        break;
+      }
+    } while (cursor);
+
+    logger.info(`Fetched ${executions.length} executions${truncated ? ` (stopped at ${maxExecutions})` : ''}`);
+    return { executions: executions.slice(0, maxExecutions), truncated };
+  }
+
+  /**
+   * Get an execution; includeData adds the per-node run data (can be large)
+   */
+  async getExecutionDetails(executionId: string, includeData: boolean = false) {
+    const query = includeData ? '?includeData=true' : '';
+    return this.request('GET', `executions/${executionId}${query}`);
+  }
+}
+
+function parseDate(value: string, field: string): number {
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`${field} is not a valid date: ${value}`);
   }
+  return time;
 }
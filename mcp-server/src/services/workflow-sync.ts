@@ -0,0 +1,246 @@
+import path from 'path';
+import * as fs from 'fs';
+import { N8nWorkflowService, toWorkflowData } from './workflow-service.js';
+import { stableStringify } from '../utils/stable-json.js';
+import { diffWorkflows } from '../utils/workflow-diff.js';
+import { logger } from '../utils/logger.js';
+
+export type SyncFileStatus = 'unchanged' | 'modified' | 'local-only' | 'remote-only';
+
+export interface SyncStatusEntry {
+  status: SyncFileStatus;
+  file: string | null;
+  workflowId: string | null;
+  name: string;
+  /** Remote -> local changes, for modified files */
+  changes?: ReturnType<typeof diffWorkflows>['summary'];
+}
+
+export interface SyncExportOptions {
+  /** Delete local workflow files whose workflow no longer exists on the instance */
+  prune?: boolean;
+}
+
+export interface SyncImportOptions {
+  /** Only report what would be created or updated */
+  dryRun?: boolean;
+}
+
+/**
+ * Exports workflows to a directory as normalized JSON files (one per workflow,
+ * keys sorted, volatile fields removed) and imports them back, so workflows
+ * can be versioned and reviewed in git
+ */
+export class WorkflowSyncService {
+  constructor(private workflowService: N8nWorkflowService) {}
+
+  async exportWorkflows(dir: string, options: SyncExportOptions = {}) {
+    fs.mkdirSync(dir, { recursive: true });
+
+    const remote = await this.listRemoteWorkflows();
+    const local = readWorkflowFiles(dir);
+    const written: string[] = [];
+    const unchanged: string[] = [];
+    const removed: string[] = [];
+
+    for (const summary of remote) {
+      const workflow = normalizeWorkflow(await this.workflowService.getWorkflow(summary.id));
+      const file = workflowFileName(workflow);
+      const content = serializeWorkflow(workflow);
+
+      // A renamed workflow gets a new file name; drop the old file for the same ID
+      for (const entry of local.filter(l => l.workflow.id === workflow.id && l.file !== file)) {
+        fs.unlinkSync(path.join(dir, entry.file));
+        removed.push(entry.file);
+      }
+
+      const target = path.join(dir, file);
+      if (fs.existsSync(target) && fs.readFileSync(target, 'utf8') === content) {
+        unchanged.push(file);
+        continue;
+      }
+      fs.writeFileSync(target, content);
+      written.push(file);
+    }
+
+    if (options.prune) {
+      const remoteIds = new Set(remote.map(w => String(w.id)));
+      for (const entry of local) {
+        if (entry.workflow.id && !remoteIds.has(String(entry.workflow.id)) && !removed.includes(entry.file)) {
+          fs.unlinkSync(path.join(dir, entry.file));
+          removed.push(entry.file);
+        }
+      }
+    }
+
+    logger.info(`Exported ${remote.length} workflows to ${dir} (${written.length} written, ${removed.length} removed)`);
+    return { dir, workflows: remote.length, written, unchanged: unchanged.length, removed };
+  }
+
+  /**
+   * Create or update workflows from the files in a directory. Files are matched
+   * to remote workflows by ID, then by name; files without a match are created
+   * and rewritten with the ID n8n assigned.
+   */
+  async importWorkflows(dir: string, options: SyncImportOptions = {}) {
+    const remote = await this.listRemoteWorkflows();
+    const results: Array<{ file: string; action: 'created' | 'updated' | 'unchanged'; workflowId: string | null; name: string }> = [];
+
+    for (const entry of readWorkflowFiles(dir)) {
+      const local = entry.workflow;
+      const match = findRemoteMatch(local, remote);
+
+      if (!match) {
+        let workflowId: string | null = null;
+        if (!options.dryRun) {
+          const created: any = await this.workflowService.createWorkflow(toWorkflowData(local));
+          workflowId = created.id;
+          const normalized = normalizeWorkflow(created);
+          fs.unlinkSync(path.join(dir, entry.file));
+          fs.writeFileSync(path.join(dir, workflowFileName(normalized)), serializeWorkflow(normalized));
+        }
+        results.push({ file: entry.file, action: 'created', workflowId, name: local.name });
+        continue;
+      }
+
+      const current = normalizeWorkflow(await this.workflowService.getWorkflow(match.id));
+      if (serializeWorkflow(current) === serializeWorkflow({ ...local, id: current.id })) {
+        results.push({ file: entry.file, action: 'unchanged', workflowId: match.id, name: local.name });
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await this.workflowService.updateWorkflow(match.id, toWorkflowData(local));
+      }
+      results.push({ file: entry.file, action: 'updated', workflowId: match.id, name: local.name });
+    }
+
+    const count = (action: string) => results.filter(r => r.action === action).length;
+    logger.info(`Imported ${results.length} workflow files from ${dir}${options.dryRun ? ' (dry run)' : ''}`);
+    return {
+      dir,
+      dryRun: Boolean(options.dryRun),
+      summary: { created: count('created'), updated: count('updated'), unchanged: count('unchanged') },
+      results,
+    };
+  }
+
+  /**
+   * Compare the files in a directory with the workflows on the instance
+   */
+  async status(dir: string) {
+    const remote = await this.listRemoteWorkflows();
+    const entries: SyncStatusEntry[] = [];
+    const matchedIds = new Set<string>();
+
+    for (const entry of readWorkflowFiles(dir)) {
+      const local = entry.workflow;
+      const match = findRemoteMatch(local, remote);
+      if (!match) {
+        entries.push({ status: 'local-only', file: entry.file, workflowId: local.id ?? null, name: local.name });
+        continue;
+      }
+
+      matchedIds.add(String(match.id));
+      const current = normalizeWorkflow(await this.workflowService.getWorkflow(match.id));
+      const localWithId = { ...local, id: current.id };
+      if (serializeWorkflow(current) === serializeWorkflow(localWithId)) {
+        entries.push({ status: 'unchanged', file: entry.file, workflowId: match.id, name: local.name });
+      } else {
+        entries.push({
+          status: 'modified',
+          file: entry.file,
+          workflowId: match.id,
+          name: local.name,
+          changes: diffWorkflows(current, localWithId).summary,
+        });
+      }
+    }
+
+    for (const workflow of remote) {
+      if (!matchedIds.has(String(workflow.id))) {
+        entries.push({ status: 'remote-only', file: null, workflowId: workflow.id, name: workflow.name });
+      }
+    }
+
+    const count = (status: SyncFileStatus) => entries.filter(e => e.status === status).length;
+    return {
+      dir,
+      summary: {
+        unchanged: count('unchanged'),
+        modified: count('modified'),
+        localOnly: count('local-only'),
+        remoteOnly: count('remote-only'),
+      },
+      entries: entries.filter(e => e.status !== 'unchanged'),
+    };
+  }
+
+  private async listRemoteWorkflows(): Promise<any[]> {
+    const response: any = await this.workflowService.listWorkflows();
+    return response.data.filter((w: any) => !w.isArchived);
+  }
+}
+
+/**
+ * Keep only the fields that define a workflow. Volatile fields (versionId,
+ * timestamps, active, staticData, pinData, ...) are dropped and nodes are
+ * sorted by name so exports only change when the workflow does.
+ */
+export function normalizeWorkflow(workflow: any) {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    nodes: [...(workflow.nodes || [])].sort((a: any, b: any) => String(a.name).localeCompare(String(b.name))),
+    connections: workflow.connections || {},
+    settings: workflow.settings || {},
+  };
+}
+
+export function serializeWorkflow(workflow: any): string {
+  return stableStringify(workflow, 2) + '\n';
+}
+
+function workflowFileName(workflow: any): string {
+  const slug = String(workflow.name || 'workflow')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'workflow';
+  return `${slug}.${workflow.id}.json`;
+}
+
+function readWorkflowFiles(dir: string): Array<{ file: string; workflow: any }> {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      let workflow: any;
+      try {
+        workflow = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      } catch (error) {
+        throw new Error(`Invalid JSON in ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!workflow || !Array.isArray(workflow.nodes) || !workflow.name) {
+        throw new Error(`${file} is not a workflow file (name and nodes are required)`);
+      }
+      return { file, workflow: normalizeWorkflow(workflow) };
+    });
+}
+
+function findRemoteMatch(local: any, remote: any[]): any | null {
+  if (local.id) {
+    const byId = remote.find(w => String(w.id) === String(local.id));
+    if (byId) return byId;
+  }
+
+  const byName = remote.filter(w => w.name === local.name);
+  if (byName.length > 1) {
+    throw new Error(`Several workflows are named "${local.name}" (${byName.map(w => w.id).join(', ')}); set the id in the file`);
+  }
+  return byName[0] ?? null;
+}
@@ -0,0 +1,330 @@
+import path from 'path';
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { N8nWorkflowService } from './workflow-service.js';
+import { TestRunOptions, WorkflowTester } from './workflow-tester.js';
+import { getRunData } from '../utils/execution-data.js';
+import { queryJsonPath } from '../utils/json-path.js';
+import { stableStringify } from '../utils/stable-json.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Check on the items one node produced; `path` is a JSONPath evaluated against
+ * the list of the items' json (e.g. "$[0].total" or "$[*].id")
+ */
+export interface OutputAssertion {
+  node: string;
+  path: string;
+  outputIndex?: number;
+  runIndex?: number;
+  equals?: any;
+  notEquals?: any;
+  exists?: boolean;
+  contains?: any;
+  matches?: string;
+  greaterThan?: number;
+  lessThan?: number;
+  /** Number of values the path matches */
+  count?: number;
+}
+
+export interface WorkflowTestCase {
+  name: string;
+  /** Workflow to run, by ID or by name */
+  workflowId?: string;
+  workflowName?: string;
+  payload?: any;
+  fixture?: string;
+  trigger?: Pick<TestRunOptions, 'triggerNode' | 'mode' | 'method' | 'query' | 'headers'>;
+  timeoutMs?: number;
+  assert?: {
+    /** Expected execution status (default: success) */
+    status?: string;
+    /** Nodes that must have run */
+    nodesRan?: string[];
+    /** Nodes that must not have run (e.g. the other branch of an If) */
+    nodesNotRan?: string[];
+    output?: OutputAssertion[];
+  };
+}
+
+export interface AssertionResult {
+  assertion: string;
+  passed: boolean;
+  expected?: any;
+  actual?: any;
+}
+
+export interface TestCaseResult {
+  name: string;
+  file: string;
+  workflowId: string | null;
+  executionId: string | null;
+  result: 'passed' | 'failed' | 'error';
+  durationMs: number;
+  assertions: AssertionResult[];
+  error?: string;
+}
+
+export interface TestSuiteResult {
+  name: string;
+  startedAt: string;
+  durationMs: number;
+  summary: { total: number; passed: number; failed: number; errors: number };
+  tests: TestCaseResult[];
+}
+
+const TEST_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Runs workflow regression tests: each test sends a payload to a workflow's
+ * trigger and checks the resulting execution's status, the nodes that ran and
+ * values in node outputs
+ */
+export class WorkflowTestRunner {
+  constructor(
+    private workflowService: N8nWorkflowService,
+    private tester: WorkflowTester
+  ) {}
+
+  /**
+   * Run every test in a file or directory; `filter` keeps tests whose name contains it
+   */
+  async runSuite(suitePath: string, options: { filter?: string } = {}): Promise<TestSuiteResult> {
+    const started = Date.now();
+    const cases = loadTestCases(suitePath)
+      .filter(c => !options.filter || c.test.name.toLowerCase().includes(options.filter.toLowerCase()));
+    if (cases.length === 0) {
+      throw new Error(`No workflow tests found in ${suitePath}${options.filter ? ` matching "${options.filter}"` : ''}`);
+    }
+
+    const tests: TestCaseResult[] = [];
+    for (const { file, test } of cases) {
+      tests.push(await this.runTest(file, test));
+    }
+
+    const count = (result: TestCaseResult['result']) => tests.filter(t => t.result === result).length;
+    const summary = { total: tests.length, passed: count('passed'), failed: count('failed'), errors: count('error') };
+    logger.info(`Workflow tests: ${summary.passed}/${summary.total} passed`);
+
+    return {
+      name: path.basename(path.resolve(suitePath)),
+      startedAt: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+      summary,
+      tests,
+    };
+  }
+
+  private async runTest(file: string, test: WorkflowTestCase): Promise<TestCaseResult> {
+    const started = Date.now();
+    let workflowId: string | null = null;
+    let executionId: string | null = null;
+
+    try {
+      workflowId = await this.resolveWorkflowId(test);
+      const run = await this.tester.run(workflowId, {
+        payload: test.payload,
+        fixture: test.fixture,
+        timeoutMs: test.timeoutMs,
+        ...test.trigger,
+      });
+      executionId = run.executionId;
+
+      const assertions = checkExecution(run.execution, run.summary.status, test.assert || {});
+      return {
+        name: test.name,
+        file,
+        workflowId,
+        executionId,
+        result: assertions.every(a => a.passed) ? 'passed' : 'failed',
+        durationMs: Date.now() - started,
+        assertions,
+      };
+    } catch (error) {
+      return {
+        name: test.name,
+        file,
+        workflowId,
+        executionId,
+        result: 'error',
+        durationMs: Date.now() - started,
+        assertions: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async resolveWorkflowId(test: WorkflowTestCase): Promise<string> {
+    if (test.workflowId) return String(test.workflowId);
+
+    const workflows: any = await this.workflowService.listWorkflows();
+    const matches = workflows.data.filter((w: any) => w.name === test.workflowName && !w.isArchived);
+    if (matches.length === 0) {
+      throw new Error(`No workflow named "${test.workflowName}"`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Several workflows are named "${test.workflowName}" (${matches.map((w: any) => w.id).join(', ')}); use workflowId`);
+    }
+    return String(matches[0].id);
+  }
+}
+
+/**
+ * Test cases from a test file or every test file in a directory. A file holds
+ * one test, or a list under `tests`.
+ */
+export function loadTestCases(suitePath: string): Array<{ file: string; test: WorkflowTestCase }> {
+  if (!fs.existsSync(suitePath)) {
+    throw new Error(`Test path not found: ${suitePath}`);
+  }
+
+  const files = fs.statSync(suitePath).isDirectory()
+    ? fs.readdirSync(suitePath)
+      .filter(f => TEST_FILE_EXTENSIONS.includes(path.extname(f)))
+      .sort()
+      .map(f => path.join(suitePath, f))
+    : [suitePath];
+
+  return files.flatMap(file => {
+    let content: any;
+    try {
+      const text = fs.readFileSync(file, 'utf8');
+      content = path.extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new Error(`Failed to parse ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Top-level fields of a `tests` file (e.g. workflowId) apply to every test in it
+    const { tests: list, ...defaults } = content ?? {};
+    const tests: any[] = Array.isArray(list) ? list.map(test => ({ ...defaults, ...test })) : [content];
+    return tests.map((test, i) => {
+      if (!test || typeof test !== 'object') {
+        throw new Error(`${file}: test ${i + 1} is not an object`);
+      }
+      if (!test.workflowId && !test.workflowName) {
+        throw new Error(`${file}: test "${test.name ?? i + 1}" needs workflowId or workflowName`);
+      }
+      return {
+        file: path.basename(file),
+        test: { ...test, name: test.name || `${path.basename(file)}#${i + 1}` } as WorkflowTestCase,
+      };
+    });
+  });
+}
+
+/**
+ * JUnit XML for CI systems: one testsuite, one testcase per workflow test.
+ * Failed assertions become <failure>, tests that could not run become <error>.
+ */
+export function toJUnitXml(suite: TestSuiteResult): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="n8n workflow tests" tests="${suite.summary.total}" failures="${suite.summary.failed}" errors="${suite.summary.errors}" time="${seconds(suite.durationMs)}">`,
+    `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.summary.total}" failures="${suite.summary.failed}" errors="${suite.summary.errors}" time="${seconds(suite.durationMs)}" timestamp="${suite.startedAt}">`,
+  ];
+
+  for (const test of suite.tests) {
+    const attributes = `name="${escapeXml(test.name)}" classname="${escapeXml(test.file)}" time="${seconds(test.durationMs)}"`;
+    if (test.result === 'passed') {
+      lines.push(`    <testcase ${attributes}/>`);
+      continue;
+    }
+
+    lines.push(`    <testcase ${attributes}>`);
+    if (test.result === 'error') {
+      lines.push(`      <error message="${escapeXml(test.error ?? 'Unknown error')}"/>`);
+    } else {
+      const failed = test.assertions.filter(a => !a.passed);
+      const details = failed
+        .map(a => `${a.assertion}: expected ${JSON.stringify(a.expected)}, got ${JSON.stringify(a.actual)}`)
+        .join('\n');
+      lines.push(`      <failure message="${failed.length} assertion(s) failed">${escapeXml(details)}</failure>`);
+    }
+    if (test.executionId) {
+      lines.push(`      <system-out>workflow ${escapeXml(test.workflowId ?? '')}, execution ${escapeXml(test.executionId)}</system-out>`);
+    }
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function checkExecution(execution: any, status: string | undefined, expected: NonNullable<WorkflowTestCase['assert']>): AssertionResult[] {
+  const ran = new Set(Object.keys(execution?.data?.resultData?.runData || {}));
+  const results: AssertionResult[] = [];
+
+  const expectedStatus = expected.status ?? 'success';
+  results.push({ assertion: 'status', passed: status === expectedStatus, expected: expectedStatus, actual: status });
+
+  for (const node of expected.nodesRan || []) {
+    results.push({ assertion: `node "${node}" ran`, passed: ran.has(node) });
+  }
+  for (const node of expected.nodesNotRan || []) {
+    results.push({ assertion: `node "${node}" did not run`, passed: !ran.has(node) });
+  }
+
+  for (const check of expected.output || []) {
+    results.push(...checkOutput(execution, check));
+  }
+  return results;
+}
+
+function checkOutput(execution: any, check: OutputAssertion): AssertionResult[] {
+  const label = `${check.node} ${check.path}`;
+  const runs = getRunData(execution)[check.node];
+  const run = runs?.[check.runIndex ?? runs.length - 1];
+  if (!run) {
+    return [{ assertion: label, passed: false, expected: 'node output', actual: runs ? `run ${check.runIndex} does not exist` : 'node did not run' }];
+  }
+
+  let values: any[];
+  try {
+    const items = (run.data?.main?.[check.outputIndex ?? 0] || []).map((item: any) => item?.json ?? {});
+    values = queryJsonPath(items, check.path);
+  } catch (error) {
+    return [{ assertion: label, passed: false, actual: error instanceof Error ? error.message : String(error) }];
+  }
+
+  const actual = values.length === 1 ? values[0] : values;
+  const results: AssertionResult[] = [];
+  const add = (name: string, passed: boolean, expected: any, actualValue: any = actual) =>
+    results.push({ assertion: `${label} ${name}`, passed, expected, actual: actualValue });
+
+  if (check.exists !== undefined) add('exists', (values.length > 0) === check.exists, check.exists, values.length > 0);
+  if (check.count !== undefined) add('count', values.length === check.count, check.count, values.length);
+  if ('equals' in check) add('equals', values.length > 0 && deepEqual(actual, check.equals), check.equals);
+  if ('notEquals' in check) add('notEquals', !deepEqual(actual, check.notEquals), check.notEquals);
+  if ('contains' in check) add('contains', contains(actual, check.contains), check.contains);
+  if (check.matches !== undefined) add('matches', typeof actual === 'string' && new RegExp(check.matches).test(actual), check.matches);
+  if (check.greaterThan !== undefined) add('greaterThan', typeof actual === 'number' && actual > check.greaterThan, check.greaterThan);
+  if (check.lessThan !== undefined) add('lessThan', typeof actual === 'number' && actual < check.lessThan, check.lessThan);
+
+  // A path with no comparison only checks that it matches something
+  if (results.length === 0) add('exists', values.length > 0, true, values.length > 0);
+  return results;
+}
+
+function contains(actual: any, expected: any): boolean {
+  if (typeof actual === 'string') return typeof expected === 'string' && actual.includes(expected);
+  if (Array.isArray(actual)) return actual.some(value => deepEqual(value, expected));
+  return false;
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
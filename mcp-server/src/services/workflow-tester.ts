@@ -0,0 +1,234 @@
+import path from 'path';
+import * as fs from 'fs';
+import { N8nWorkflowService } from './workflow-service.js';
+import { ExecutionSummary, summarizeExecution } from '../utils/execution-data.js';
+import { logger } from '../utils/logger.js';
+
+const WEBHOOK_TYPE = 'n8n-nodes-base.webhook';
+const FORM_TRIGGER_TYPE = 'n8n-nodes-base.formTrigger';
+const FINISHED_STATUSES = ['success', 'error', 'canceled', 'crashed', 'waiting'];
+const MAX_RESPONSE_LENGTH = 2000;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+export interface WorkflowTesterOptions {
+  /** Base URL webhooks are served from (e.g. https://n8n.example.com) */
+  baseUrl: string;
+  /** Directory holding named JSON payload fixtures */
+  fixturesDir?: string;
+}
+
+export interface TestRunOptions {
+  /** JSON payload sent to the trigger */
+  payload?: any;
+  /** Name of a fixture file in the fixtures directory (with or without .json) */
+  fixture?: string;
+  /** Trigger node to call when the workflow has several */
+  triggerNode?: string;
+  /**
+   * "production" calls /webhook/<path> (workflow must be active); "test" calls
+   * /webhook-test/<path>, which only answers while the editor listens for a test event
+   */
+  mode?: 'production' | 'test';
+  /** Overrides the node's HTTP method */
+  method?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** How long to wait for the trigger's response and for the execution to finish, each (default: 60000) */
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface TestRun {
+  workflowId: string;
+  trigger: { node: string; type: string; method: string; url: string; mode: 'production' | 'test' };
+  response: { status: number; body: any };
+  executionId: string;
+  status?: string;
+  summary: ExecutionSummary;
+  /** Full execution with run data */
+  execution: any;
+}
+
+/**
+ * Runs a workflow through its Webhook or Form trigger with a given payload and
+ * waits for the execution it starts
+ */
+export class WorkflowTester {
+  private baseUrl: string;
+  private fixturesDir: string;
+
+  constructor(private workflowService: N8nWorkflowService, options: WorkflowTesterOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.fixturesDir = options.fixturesDir || './fixtures';
+  }
+
+  async run(workflowId: string, options: TestRunOptions = {}): Promise<TestRun> {
+    const workflow: any = await this.workflowService.getWorkflow(workflowId);
+    const trigger = findTrigger(workflow, options.triggerNode);
+    const mode = options.mode ?? 'production';
+    if (mode === 'production' && !workflow.active) {
+      throw new Error(`Workflow ${workflowId} is not active, so its production webhook is not registered. Activate it, or use mode "test" while the editor is listening for a test event.`);
+    }
+
+    const payload = options.fixture !== undefined ? this.loadFixture(options.fixture) : options.payload;
+    const method = (options.method || getTriggerMethod(trigger)).toUpperCase();
+    const url = this.getTriggerUrl(trigger, mode, options.query);
+
+    // Anything newer than the latest existing execution was started by this run
+    const before: any = await this.workflowService.getExecutions({ workflowId, limit: 1 });
+    const previousId = before.data[0]?.id ?? null;
+    const sentAt = Date.now();
+
+    logger.info(`Testing workflow ${workflowId}: ${method} ${url}`);
+    const response = await sendPayload(url, method, trigger.type, payload, options.headers || {}, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    const executionId = await this.waitForExecution(workflowId, previousId, sentAt, options);
+    const execution: any = await this.workflowService.getExecutionDetails(executionId, true);
+    const summary = summarizeExecution(execution);
+
+    return {
+      workflowId,
+      trigger: { node: trigger.name, type: trigger.type, method, url, mode },
+      response,
+      executionId,
+      status: summary.status,
+      summary,
+      execution,
+    };
+  }
+
+  /**
+   * Payload stored in <fixturesDir>/<name>.json
+   */
+  loadFixture(name: string): any {
+    const file = path.resolve(this.fixturesDir, name.endsWith('.json') ? name : `${name}.json`);
+    if (!file.startsWith(path.resolve(this.fixturesDir) + path.sep)) {
+      throw new Error(`Fixture "${name}" is outside the fixtures directory`);
+    }
+    if (!fs.existsSync(file)) {
+      const available = fs.existsSync(this.fixturesDir)
+        ? fs.readdirSync(this.fixturesDir).filter(f => f.endsWith('.json')).map(f => f.replace(/\.json$/, ''))
+        : [];
+      throw new Error(`Fixture "${name}" not found in ${this.fixturesDir}${available.length ? ` (available: ${available.join(', ')})` : ''}`);
+    }
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid JSON in fixture ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private getTriggerUrl(trigger: any, mode: 'production' | 'test', query?: Record<string, string>): string {
+    const webhookPath = String(trigger.parameters?.path || trigger.webhookId || '').replace(/^\//, '');
+    if (!webhookPath) {
+      throw new Error(`Trigger "${trigger.name}" has no path or webhookId`);
+    }
+    if (webhookPath.split('/').some(segment => segment.startsWith(':'))) {
+      throw new Error(`Trigger "${trigger.name}" has a dynamic path (${webhookPath}); dynamic segments are not supported`);
+    }
+
+    const prefix = trigger.type === FORM_TRIGGER_TYPE ? 'form' : 'webhook';
+    const params = query && Object.keys(query).length > 0 ? `?${new URLSearchParams(query).toString()}` : '';
+    return `${this.baseUrl}/${mode === 'test' ? `${prefix}-test` : prefix}/${webhookPath}${params}`;
+  }
+
+  private async waitForExecution(workflowId: string, previousId: string | null, sentAt: number, options: TestRunOptions): Promise<string> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const pollIntervalMs = options.pollIntervalMs ?? 1000;
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const page: any = await this.workflowService.getExecutions({ workflowId, limit: 5 });
+      const started = page.data.find((e: any) =>
+        isNewerExecution(e, previousId) && (!e.startedAt || new Date(e.startedAt).getTime() >= sentAt - 5000)
+      );
+      if (started && (FINISHED_STATUSES.includes(started.status) || (!started.status && started.stoppedAt))) {
+        return String(started.id);
+      }
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+
+    throw new Error(`No finished execution of workflow ${workflowId} appeared within ${timeoutMs}ms. The webhook may not have started the workflow, or the workflow does not save execution data (settings.saveDataSuccessExecution / saveDataErrorExecution).`);
+  }
+}
+
+function findTrigger(workflow: any, triggerNode?: string): any {
+  const triggers = (workflow.nodes || []).filter((n: any) =>
+    (n.type === WEBHOOK_TYPE || n.type === FORM_TRIGGER_TYPE) && !n.disabled
+  );
+  if (triggerNode) {
+    const trigger = triggers.find((n: any) => n.name === triggerNode);
+    if (!trigger) {
+      throw new Error(`"${triggerNode}" is not an enabled Webhook or Form trigger in workflow ${workflow.id}`);
+    }
+    return trigger;
+  }
+  if (triggers.length === 0) {
+    throw new Error(`Workflow ${workflow.id} has no enabled Webhook or Form trigger node`);
+  }
+  if (triggers.length > 1) {
+    throw new Error(`Workflow ${workflow.id} has several triggers (${triggers.map((n: any) => n.name).join(', ')}); pass triggerNode`);
+  }
+  return triggers[0];
+}
+
+function getTriggerMethod(trigger: any): string {
+  if (trigger.type === FORM_TRIGGER_TYPE) return 'POST';
+  const method = trigger.parameters?.httpMethod;
+  // Webhooks listening on several methods store a list
+  if (Array.isArray(method)) return method.includes('POST') ? 'POST' : method[0] || 'GET';
+  return method || 'GET';
+}
+
+async function sendPayload(url: string, method: string, triggerType: string, payload: any, headers: Record<string, string>, timeoutMs: number) {
+  // Webhooks responding when the last node finishes hold the request open while the workflow runs
+  const init: RequestInit = { method, headers: { ...headers }, signal: AbortSignal.timeout(timeoutMs) };
+
+  if (payload !== undefined && method === 'GET') {
+    // GET webhooks receive the payload as query parameters
+    const target = new URL(url);
+    for (const [key, value] of Object.entries(payload)) {
+      target.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+    url = target.toString();
+  } else if (payload !== undefined && triggerType === FORM_TRIGGER_TYPE) {
+    init.body = new URLSearchParams(Object.entries(payload).map(([k, v]): [string, string] => [k, typeof v === 'string' ? v : JSON.stringify(v)]));
+  } else if (payload !== undefined) {
+    init.body = JSON.stringify(payload);
+    (init.headers as Record<string, string>)['Content-Type'] = 'application/json';
+  }
+
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, init);
+    text = await response.text();
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new Error(`Trigger URL ${url} did not respond within ${timeoutMs}ms. The host may be unreachable, or the webhook responds only when the workflow finishes; raise timeoutMs or check the execution with get_executions.`);
+    }
+    throw error;
+  }
+  let body: any = text;
+  if (text.length > MAX_RESPONSE_LENGTH) {
+    body = `${text.slice(0, MAX_RESPONSE_LENGTH)}…`;
+  } else {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON: keep the text
+    }
+  }
+
+  if (response.status === 404) {
+    throw new Error(`Trigger URL ${url} returned 404: ${typeof body === 'string' ? body : JSON.stringify(body)}`);
+  }
+  return { status: response.status, body };
+}
+
+function isNewerExecution(execution: any, previousId: string | null): boolean {
+  if (previousId === null) return true;
+  const id = Number(execution.id);
+  const previous = Number(previousId);
+  return Number.isNaN(id) || Number.isNaN(previous) ? String(execution.id) !== String(previousId) : id > previous;
+}
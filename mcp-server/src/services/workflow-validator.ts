@@ -0,0 +1,300 @@
+import { N8nNodeService } from './node-service.js';
+import { WorkflowData } from './workflow-service.js';
+import { NON_VALUE_TYPES, getVisibleProperties } from '../utils/display-options.js';
+import { lintWorkflowExpressions } from '../utils/expression-linter.js';
+import { logger } from '../utils/logger.js';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  node: string;
+  nodeType?: string;
+  path: string;
+  message: string;
+  suggestion?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  summary: {
+    nodes: number;
+    errors: number;
+    warnings: number;
+  };
+}
+
+/**
+ * Validates workflow JSON against the node database before it is sent to n8n
+ */
+export class WorkflowValidator {
+  constructor(private nodeService: N8nNodeService) {}
+
+  validate(workflow: Partial<WorkflowData>): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+
+    if (!Array.isArray(workflow.nodes)) {
+      issues.push({
+        severity: 'error',
+        node: '',
+        path: 'nodes',
+        message: 'Workflow "nodes" must be an array',
+        suggestion: 'Provide nodes as an array of node objects',
+      });
+    }
+
+    const seenNames = new Set<string>();
+    for (const [index, node] of nodes.entries()) {
+      const nodeName = node?.name || `#${index}`;
+
+      if (!node?.name) {
+        issues.push({
+          severity: 'error',
+          node: nodeName,
+          path: 'name',
+          message: 'Node is missing a name',
+          suggestion: 'Give every node a unique "name"',
+        });
+      } else if (seenNames.has(node.name)) {
+        issues.push({
+          severity: 'error',
+          node: nodeName,
+          path: 'name',
+          message: `Duplicate node name "${node.name}"`,
+          suggestion: 'Node names must be unique within a workflow; rename one of them',
+        });
+      } else {
+        seenNames.add(node.name);
+      }
+
+      if (!node?.type) {
+        issues.push({
+          severity: 'error',
+          node: nodeName,
+          path: 'type',
+          message: 'Node is missing a type',
+          suggestion: 'Set "type" to a node type such as "n8n-nodes-base.httpRequest"',
+        });
+        continue;
+      }
+
+      issues.push(...this.validateNode(node, nodeName));
+    }
+
+    // Expressions: syntax, references to missing or non-upstream nodes, deprecated forms
+    issues.push(...lintWorkflowExpressions({ nodes, connections: workflow.connections }));
+
+    const errors = issues.filter(i => i.severity === 'error');
+    const warnings = issues.filter(i => i.severity === 'warning');
+
+    logger.info(`Validated ${nodes.length} nodes: ${errors.length} errors, ${warnings.length} warnings`);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      summary: {
+        nodes: nodes.length,
+        errors: errors.length,
+        warnings: warnings.length,
+      },
+    };
+  }
+
+  private validateNode(node: any, nodeName: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const resolution = this.nodeService.resolveNodeType(node.type);
+
+    if (!resolution.nodeType) {
+      const candidates = resolution.suggestions.slice(0, 3).map(c => `"${c.workflowNodeType}"`);
+      issues.push({
+        severity: 'error',
+        node: nodeName,
+        nodeType: node.type,
+        path: 'type',
+        message: `Unknown node type "${node.type}"`,
+        suggestion: candidates.length > 0
+          ? `Did you mean ${candidates.join(', ')}? Use search_n8n_nodes to find the correct node type`
+          : 'Use search_n8n_nodes to find the correct node type',
+      });
+      return issues;
+    }
+
+    // n8n only accepts the full package-prefixed type in workflow JSON
+    if (node.type !== resolution.workflowNodeType) {
+      issues.push({
+        severity: 'error',
+        node: nodeName,
+        nodeType: node.type,
+        path: 'type',
+        message: `Node type "${node.type}" is not a valid workflow node type`,
+        suggestion: `Set "type" to "${resolution.workflowNodeType}"`,
+      });
+    }
+
+    const latest: any = this.nodeService.getNodeInfo(resolution.nodeType);
+    if (!latest) {
+      return issues;
+    }
+
+    // typeVersion must be one of the versions stored for the node
+    const versions: number[] = latest.versions || [];
+    const typeVersion = node.typeVersion !== undefined ? Number(node.typeVersion) : undefined;
+    const versionAvailable = typeVersion !== undefined && (versions.length === 0 || versions.includes(typeVersion));
+
+    if (typeVersion === undefined) {
+      issues.push({
+        severity: 'error',
+        node: nodeName,
+        nodeType: node.type,
+        path: 'typeVersion',
+        message: 'Node is missing typeVersion',
+        suggestion: `Set "typeVersion" to ${latest.latest_version}`,
+      });
+    } else if (!versionAvailable) {
+      issues.push({
+        severity: 'error',
+        node: nodeName,
+        nodeType: node.type,
+        path: 'typeVersion',
+        message: `typeVersion ${node.typeVersion} is not available for ${latest.node_type} (available: ${versions.join(', ')})`,
+        suggestion: `Set "typeVersion" to ${latest.latest_version}`,
+      });
+    }
+
+    // Check parameters against the schema of the pinned typeVersion
+    const info: any = versionAvailable
+      ? this.nodeService.getNodeInfo(resolution.nodeType, typeVersion)
+      : latest;
+
+    const properties: any[] = Array.isArray(info.properties) ? info.properties : [];
+    if (properties.length === 0) {
+      return issues;
+    }
+
+    const parameters = node.parameters || {};
+    const visible = getVisibleProperties(properties, {
+      parameters,
+      typeVersion: info.type_version,
+    });
+
+    // Required parameters that are visible but neither set nor defaulted
+    for (const property of visible) {
+      if (!property.required || NON_VALUE_TYPES.includes(property.type)) continue;
+      if (!isEmptyValue(parameters[property.name])) continue;
+      if (!isEmptyValue(property.default)) continue;
+
+      issues.push({
+        severity: 'error',
+        node: nodeName,
+        nodeType: node.type,
+        path: `parameters.${property.name}`,
+        message: `Required parameter "${property.displayName || property.name}" is missing`,
+        suggestion: describeExpectedValue(property),
+      });
+    }
+
+    // Parameters that are set: unknown, hidden or outside the allowed options
+    for (const [name, value] of Object.entries(parameters)) {
+      const definitions = properties.filter(p => p.name === name);
+      const visibleDefinitions = visible.filter(p => p.name === name);
+
+      if (definitions.length === 0) {
+        issues.push({
+          severity: 'warning',
+          node: nodeName,
+          nodeType: node.type,
+          path: `parameters.${name}`,
+          message: `Parameter "${name}" does not exist on ${info.node_type} (typeVersion ${info.type_version})`,
+          suggestion: 'Remove the parameter or check get_node_info for the correct name',
+        });
+        continue;
+      }
+
+      if (visibleDefinitions.length === 0) {
+        issues.push({
+          severity: 'warning',
+          node: nodeName,
+          nodeType: node.type,
+          path: `parameters.${name}`,
+          message: `Parameter "${name}" is hidden by displayOptions for the current settings and will be ignored`,
+          suggestion: describeDisplayConditions(definitions),
+        });
+        continue;
+      }
+
+      const optionIssue = checkOptions(visibleDefinitions, value);
+      if (optionIssue) {
+        issues.push({
+          severity: 'error',
+          node: nodeName,
+          nodeType: node.type,
+          path: `parameters.${name}`,
+          ...optionIssue,
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isExpression(value: any): boolean {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+/**
+ * Check an options/multiOptions value against the allowed option values
+ */
+function checkOptions(definitions: any[], value: any): { message: string; suggestion: string } | null {
+  const definition = definitions.find(d => d.type === 'options' || d.type === 'multiOptions');
+  if (!definition || !Array.isArray(definition.options) || isExpression(value)) {
+    return null;
+  }
+
+  // Options loaded at runtime (typeOptions.loadOptionsMethod) cannot be checked offline
+  if (definition.typeOptions?.loadOptionsMethod || definition.typeOptions?.loadOptions) {
+    return null;
+  }
+
+  const allowed = definition.options.map((o: any) => o.value);
+  const values = definition.type === 'multiOptions' && Array.isArray(value) ? value : [value];
+  const invalid = values.filter((v: any) => !isExpression(v) && !allowed.includes(v));
+
+  if (invalid.length === 0) {
+    return null;
+  }
+
+  return {
+    message: `Invalid value ${invalid.map((v: any) => JSON.stringify(v)).join(', ')} for "${definition.displayName || definition.name}"`,
+    suggestion: `Use one of: ${allowed.slice(0, 20).map((v: any) => JSON.stringify(v)).join(', ')}${allowed.length > 20 ? ', ...' : ''}`,
+  };
+}
+
+function describeExpectedValue(property: any): string {
+  if (Array.isArray(property.options) && property.type === 'options') {
+    const allowed = property.options.slice(0, 10).map((o: any) => JSON.stringify(o.value));
+    return `Set "${property.name}" to one of: ${allowed.join(', ')}`;
+  }
+  return `Set "${property.name}" (type: ${property.type})${property.placeholder ? `, e.g. ${property.placeholder}` : ''}`;
+}
+
+function describeDisplayConditions(definitions: any[]): string {
+  const conditions = definitions
+    .map(d => d.displayOptions?.show)
+    .filter(Boolean)
+    .slice(0, 3)
+    .map(show => Object.entries(show).map(([k, v]) => `${k}=${JSON.stringify(v)}`).join(' and '));
+
+  if (conditions.length === 0) {
+    return 'Remove the parameter; it is not used with the current settings';
+  }
+  return `Only used when ${conditions.join(' or ')}; remove it or change those parameters`;
+}
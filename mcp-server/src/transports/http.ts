@@ -0,0 +1,234 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Shared HTTP mode: streamable HTTP on /mcp with the legacy SSE transport on
+ * /sse + /messages as a fallback. Every session gets its own MCP Server
+ * instance; the n8n services behind it are shared.
+ */
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** Bearer token required on every MCP request */
+  authToken: string;
+  /** Called once all sessions are closed during shutdown (close databases, ...) */
+  onShutdown?: () => void | Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  kind: 'streamable-http' | 'sse';
+  createdAt: string;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+export async function startHttpServer(createServer: () => Server, options: HttpTransportOptions): Promise<http.Server> {
+  if (!options.authToken) {
+    throw new Error('MCP_AUTH_TOKEN is required in http mode');
+  }
+
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+        return sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+      }
+
+      if (![MCP_PATH, SSE_PATH, SSE_MESSAGES_PATH].includes(url.pathname)) {
+        return sendJson(res, 404, { error: 'Not found' });
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      }
+
+      if (url.pathname === MCP_PATH) {
+        return await handleStreamableHttp(req, res);
+      }
+      if (url.pathname === SSE_PATH && req.method === 'GET') {
+        return await handleSseConnect(res);
+      }
+      if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        const session = sessions.get(url.searchParams.get('sessionId') || '');
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+          return sendJson(res, 404, { error: 'Unknown SSE session' });
+        }
+        return await session.transport.handlePostMessage(req, res);
+      }
+
+      sendJson(res, 405, { error: 'Method not allowed' });
+    } catch (error) {
+      logger.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, error instanceof HttpError ? error.status : 500, {
+          error: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    }
+  });
+
+  async function handleStreamableHttp(req: IncomingMessage, res: ServerResponse) {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return sendJson(res, 404, jsonRpcError('Session not found'));
+      }
+      return session.transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return sendJson(res, 400, jsonRpcError('No session: send an initialize request first'));
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, server, kind: 'streamable-http', createdAt: new Date().toISOString() });
+        logger.info(`Opened streamable HTTP session ${id} (${sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info(`Closed streamable HTTP session ${transport.sessionId} (${sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: ServerResponse) {
+    const server = createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { transport, server, kind: 'sse', createdAt: new Date().toISOString() });
+    logger.info(`Opened SSE session ${transport.sessionId} (${sessions.size} active)`);
+
+    res.on('close', () => {
+      if (sessions.delete(transport.sessionId)) {
+        logger.info(`Closed SSE session ${transport.sessionId} (${sessions.size} active)`);
+        server.close().catch(error => logger.warn(`Failed to close session ${transport.sessionId}:`, error));
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  let shuttingDown = false;
+  async function shutdown(signal: string) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Received ${signal}, closing ${sessions.size} session(s)`);
+
+    const forceExit = setTimeout(() => {
+      logger.error('Shutdown timed out, exiting');
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+
+    const closing = new Promise<void>(resolve => httpServer.close(() => resolve()));
+    for (const [id, session] of [...sessions]) {
+      try {
+        await session.server.close();
+      } catch (error) {
+        logger.warn(`Failed to close session ${id}:`, error);
+      }
+    }
+    sessions.clear();
+    httpServer.closeAllConnections();
+    await closing;
+
+    try {
+      await options.onShutdown?.();
+    } catch (error) {
+      logger.error('Error during shutdown:', error);
+    }
+
+    logger.info('HTTP server stopped');
+    process.exit(0);
+  }
+
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  logger.info(`n8n Unified MCP server listening on http://${options.host}:${options.port} (streamable HTTP: ${MCP_PATH}, SSE: ${SSE_PATH})`);
+  return httpServer;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function jsonRpcError(message: string) {
+  return { jsonrpc: '2.0', error: { code: -32000, message }, id: null };
+}
+
+function sendJson(res: ServerResponse, status: number, body: any) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
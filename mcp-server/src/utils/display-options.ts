@@ -0,0 +1,141 @@
+/**
+ * Evaluation of n8n `displayOptions.show` / `displayOptions.hide` rules
+ * against a node's parameter values, mirroring how the n8n editor decides
+ * which parameters are visible (and therefore used) for a node.
+ */
+
+export interface DisplayContext {
+  /** Parameter values set on the node */
+  parameters: Record<string, any>;
+  /** Node properties (properties_schema), used to fall back to defaults */
+  properties?: any[];
+  /** Node typeVersion, matched against `@version` rules */
+  typeVersion?: number;
+}
+
+// Property types that only render UI hints and never hold a value
+export const NON_VALUE_TYPES = ['notice', 'callout', 'button'];
+
+// Guards against displayOptions that reference each other in a loop
+const MAX_DEPTH = 10;
+
+/**
+ * Resolve the current value of a parameter referenced in a displayOptions rule.
+ * Falls back to the default of the first visible property with that name, since
+ * nodes often define the same parameter (e.g. "operation") once per resource.
+ */
+function resolveValue(key: string, context: DisplayContext, depth: number): any {
+  if (key === '@version') {
+    return context.typeVersion;
+  }
+
+  // Rules may reference root parameters with a leading slash ("/resource")
+  const name = key.replace(/^\//, '');
+
+  if (context.parameters && name in context.parameters) {
+    return context.parameters[name];
+  }
+
+  const candidates = (context.properties || []).filter((p: any) => p.name === name);
+  if (depth >= MAX_DEPTH) {
+    return candidates[0]?.default;
+  }
+
+  const property = candidates.find((p: any) => isVisible(p, context, depth + 1));
+  return property?.default;
+}
+
+/**
+ * Match a single rule value against the actual value.
+ * Supports plain values and `{ _cnd: { ... } }` conditions.
+ */
+function matchesRuleValue(actual: any, expected: any): boolean {
+  if (expected && typeof expected === 'object' && '_cnd' in expected) {
+    const [operator, operand] = Object.entries(expected._cnd)[0] || [];
+    switch (operator) {
+      case 'eq': return actual === operand;
+      case 'not': return actual !== operand;
+      case 'gte': return actual >= (operand as any);
+      case 'lte': return actual <= (operand as any);
+      case 'gt': return actual > (operand as any);
+      case 'lt': return actual < (operand as any);
+      case 'between': {
+        const range = operand as { from: number; to: number };
+        return actual >= range.from && actual <= range.to;
+      }
+      case 'startsWith': return typeof actual === 'string' && actual.startsWith(operand as string);
+      case 'endsWith': return typeof actual === 'string' && actual.endsWith(operand as string);
+      case 'includes': return typeof actual === 'string' && actual.includes(operand as string);
+      case 'regex': return typeof actual === 'string' && new RegExp(operand as string).test(actual);
+      case 'exists': return actual !== undefined && actual !== null;
+      default: return false;
+    }
+  }
+
+  if (Array.isArray(actual)) {
+    return actual.includes(expected);
+  }
+
+  return actual === expected;
+}
+
+function matchesRule(key: string, expectedValues: any, context: DisplayContext, depth: number): boolean {
+  const actual = resolveValue(key, context, depth);
+  const values = Array.isArray(expectedValues) ? expectedValues : [expectedValues];
+  return values.some(expected => matchesRuleValue(actual, expected));
+}
+
+function isVisible(property: any, context: DisplayContext, depth: number): boolean {
+  const displayOptions = property?.displayOptions;
+  if (!displayOptions) return true;
+
+  if (displayOptions.show) {
+    for (const [key, values] of Object.entries(displayOptions.show)) {
+      if (!matchesRule(key, values, context, depth)) {
+        return false;
+      }
+    }
+  }
+
+  if (displayOptions.hide) {
+    for (const [key, values] of Object.entries(displayOptions.hide)) {
+      if (matchesRule(key, values, context, depth)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a property is visible for the given parameter values
+ */
+export function isPropertyVisible(property: any, context: DisplayContext): boolean {
+  return isVisible(property, context, 0);
+}
+
+/**
+ * Get the properties visible for the given parameter values
+ */
+export function getVisibleProperties(properties: any[], context: DisplayContext): any[] {
+  return properties.filter(p => isPropertyVisible(p, { ...context, properties }));
+}
+
+/**
+ * Check only the `@version` rules of a property. Used to narrow a node's
+ * properties to one typeVersion without knowing its parameter values.
+ */
+export function isPropertyAvailableInVersion(property: any, typeVersion: number): boolean {
+  const displayOptions = property?.displayOptions;
+  if (!displayOptions) return true;
+
+  const context: DisplayContext = { parameters: {}, typeVersion };
+  if (displayOptions.show?.['@version'] && !matchesRule('@version', displayOptions.show['@version'], context, 0)) {
+    return false;
+  }
+  if (displayOptions.hide?.['@version'] && matchesRule('@version', displayOptions.hide['@version'], context, 0)) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,174 @@
+/**
+ * Summaries of n8n execution payloads fetched with `includeData=true`
+ * (execution.data.resultData.runData keyed by node name, one entry per run)
+ */
+
+export interface ExecutionError {
+  message: string;
+  node?: string;
+  description?: string;
+  /** First lines of the stack trace */
+  stack?: string;
+}
+
+export interface NodeRunSummary {
+  node: string;
+  status: 'success' | 'error' | string;
+  runs: number;
+  /** Items per output of the last run (e.g. [3, 0] for an If node) */
+  outputItems: number[];
+  itemCount: number;
+  executionTimeMs: number;
+  startedAt?: string;
+  error?: ExecutionError;
+}
+
+export interface ExecutionSummary {
+  id: string;
+  workflowId?: string;
+  status?: string;
+  mode?: string;
+  startedAt?: string;
+  stoppedAt?: string;
+  durationMs: number | null;
+  lastNodeExecuted?: string;
+  error?: ExecutionError;
+  nodes: NodeRunSummary[];
+}
+
+export interface NodeOutputOptions {
+  runIndex?: number;
+  outputIndex?: number;
+  offset?: number;
+  limit?: number;
+  /** Dotted paths into each item's json to return (e.g. ["id", "user.email"]) */
+  fields?: string[];
+}
+
+const STACK_LINES = 8;
+const DEFAULT_OUTPUT_LIMIT = 10;
+const MAX_OUTPUT_LIMIT = 100;
+
+export function getRunData(execution: any): Record<string, any[]> {
+  const runData = execution?.data?.resultData?.runData;
+  if (!runData) {
+    throw new Error(`Execution ${execution?.id} has no run data (it may still be running, or execution data is not saved for this workflow)`);
+  }
+  return runData;
+}
+
+export function summarizeExecution(execution: any): ExecutionSummary {
+  const runData = getRunData(execution);
+  const resultData = execution.data.resultData;
+
+  const nodes = Object.entries(runData).map(([node, runs]) => summarizeNode(node, runs || []));
+  nodes.sort((a, b) => (a.startedAt ?? '').localeCompare(b.startedAt ?? ''));
+
+  const startedAt = execution.startedAt;
+  const stoppedAt = execution.stoppedAt;
+  const error = resultData.error ? toExecutionError(resultData.error) : undefined;
+
+  return {
+    id: String(execution.id),
+    workflowId: execution.workflowId,
+    status: execution.status ?? (error ? 'error' : execution.finished ? 'success' : undefined),
+    mode: execution.mode,
+    startedAt,
+    stoppedAt,
+    durationMs: startedAt && stoppedAt ? new Date(stoppedAt).getTime() - new Date(startedAt).getTime() : null,
+    lastNodeExecuted: resultData.lastNodeExecuted,
+    ...(error ? { error: { ...error, node: error.node ?? resultData.lastNodeExecuted } } : {}),
+    nodes,
+  };
+}
+
+/**
+ * A page of one node's output items, optionally projected to a few fields
+ */
+export function getNodeOutput(execution: any, nodeName: string, options: NodeOutputOptions = {}) {
+  const runData = getRunData(execution);
+  const runs = runData[nodeName];
+  if (!runs) {
+    throw new Error(`Node "${nodeName}" did not run in execution ${execution.id} (nodes that ran: ${Object.keys(runData).join(', ')})`);
+  }
+
+  const runIndex = options.runIndex ?? runs.length - 1;
+  const run = runs[runIndex];
+  if (!run) {
+    throw new Error(`Node "${nodeName}" has ${runs.length} run(s); runIndex ${runIndex} does not exist`);
+  }
+
+  const outputs: any[][] = run.data?.main || [];
+  const outputIndex = options.outputIndex ?? 0;
+  const items: any[] = outputs[outputIndex] || [];
+  const offset = Math.max(0, options.offset ?? 0);
+  const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_OUTPUT_LIMIT), MAX_OUTPUT_LIMIT);
+  const page = items.slice(offset, offset + limit);
+
+  return {
+    executionId: String(execution.id),
+    node: nodeName,
+    runIndex,
+    runs: runs.length,
+    outputIndex,
+    outputItems: outputs.map(o => (o || []).length),
+    totalItems: items.length,
+    offset,
+    limit,
+    hasMore: offset + page.length < items.length,
+    ...(offset + page.length < items.length ? { nextOffset: offset + page.length } : {}),
+    ...(run.error ? { error: toExecutionError(run.error) } : {}),
+    items: page.map(item => formatItem(item, options.fields)),
+  };
+}
+
+function summarizeNode(node: string, runs: any[]): NodeRunSummary {
+  const lastRun = runs[runs.length - 1] || {};
+  const outputItems = (lastRun.data?.main || []).map((o: any[]) => (o || []).length);
+  const failedRun = runs.find(r => r.error);
+
+  return {
+    node,
+    status: lastRun.executionStatus ?? (failedRun ? 'error' : 'success'),
+    runs: runs.length,
+    outputItems,
+    itemCount: runs.reduce((sum, r) => sum + (r.data?.main || []).reduce((s: number, o: any[]) => s + (o || []).length, 0), 0),
+    executionTimeMs: runs.reduce((sum, r) => sum + (r.executionTime || 0), 0),
+    ...(runs[0]?.startTime ? { startedAt: new Date(runs[0].startTime).toISOString() } : {}),
+    ...(failedRun ? { error: toExecutionError(failedRun.error) } : {}),
+  };
+}
+
+function toExecutionError(error: any): ExecutionError {
+  return {
+    message: error.message || String(error),
+    ...(error.node?.name ? { node: error.node.name } : {}),
+    ...(error.description ? { description: error.description } : {}),
+    ...(error.stack ? { stack: String(error.stack).split('\n').slice(0, STACK_LINES).join('\n') } : {}),
+  };
+}
+
+/**
+ * Item json (projected to the requested fields) plus binary metadata without the data itself
+ */
+function formatItem(item: any, fields?: string[]) {
+  const json = item?.json ?? {};
+  const projected = fields && fields.length > 0
+    ? Object.fromEntries(fields.map(field => [field, getPath(json, field)]))
+    : json;
+
+  if (!item?.binary) {
+    return { json: projected };
+  }
+
+  const binary = Object.fromEntries(Object.entries<any>(item.binary).map(([key, value]) => [key, {
+    fileName: value?.fileName,
+    mimeType: value?.mimeType,
+    fileSize: value?.fileSize,
+  }]));
+  return { json: projected, binary };
+}
+
+function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current === undefined || current === null ? undefined : current[key]), value);
+}
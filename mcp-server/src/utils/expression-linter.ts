@@ -0,0 +1,253 @@
+import { GraphEdge, STICKY_NOTE_TYPE, parseConnections } from './workflow-graph.js';
+import { editDistance } from './node-type-resolver.js';
+
+/**
+ * Static checks for n8n expressions in node parameters ("={{ ... }}" strings):
+ * JavaScript syntax, references to other nodes ($('Name'), $node["Name"],
+ * $items("Name")) that do not exist or do not run before the node, and
+ * deprecated syntax.
+ */
+
+export interface ExpressionIssue {
+  severity: 'error' | 'warning';
+  node: string;
+  nodeType?: string;
+  /** Parameter path, e.g. "parameters.options.headers[0].value" */
+  path: string;
+  message: string;
+  suggestion?: string;
+}
+
+/**
+ * A node referenced by name from an expression
+ */
+export interface NodeReference {
+  name: string;
+  /** How the node is referenced: $('Name'), $node["Name"], $node.Name or $items("Name") */
+  syntax: '$()' | '$node[]' | '$node.' | '$items()';
+  /** Offset of the quoted name (or identifier) in the expression string */
+  start: number;
+  end: number;
+}
+
+export interface ExpressionSegment {
+  /** Code between {{ and }} */
+  code: string;
+  /** Offset of the code in the expression string */
+  start: number;
+}
+
+// Legacy syntax that still works but has a current replacement
+const DEPRECATED: Array<{ pattern: RegExp; message: string; suggestion: string }> = [
+  { pattern: /\$node\s*(\[|\.)/, message: '$node is deprecated', suggestion: "Use $('Node Name').item.json instead of $node[\"Node Name\"].json" },
+  { pattern: /\$items\s*\(/, message: '$items() is deprecated', suggestion: "Use $('Node Name').all() instead of $items(\"Node Name\")" },
+  { pattern: /\$item\s*\(/, message: '$item() is deprecated', suggestion: "Use $('Node Name').itemMatching(index) or $input.item" },
+  { pattern: /\$position\b/, message: '$position is deprecated', suggestion: 'Use $itemIndex' },
+];
+
+/**
+ * Lint every expression in the workflow's node parameters
+ */
+export function lintWorkflowExpressions(workflow: { nodes?: any[]; connections?: any }): ExpressionIssue[] {
+  const nodes: any[] = (Array.isArray(workflow.nodes) ? workflow.nodes : [])
+    .filter(n => n && n.name && n.type !== STICKY_NOTE_TYPE);
+  const names = nodes.map(n => n.name as string);
+  const upstream = findUpstreamNodes(names, parseConnections(workflow.connections));
+  const issues: ExpressionIssue[] = [];
+
+  for (const node of nodes) {
+    const context = { node: node.name as string, nodeType: node.type, names, upstream: upstream.get(node.name) ?? new Set<string>() };
+    forEachString(node.parameters, 'parameters', (value, path) => {
+      issues.push(...lintValue(value, path, context));
+    });
+  }
+  return issues;
+}
+
+/**
+ * The {{ ... }} segments of an expression string; `unclosed` is set when a
+ * {{ has no matching }}
+ */
+export function parseExpression(expression: string): { segments: ExpressionSegment[]; unclosed: number | null } {
+  const segments: ExpressionSegment[] = [];
+  let index = 0;
+  while (true) {
+    const open = expression.indexOf('{{', index);
+    if (open < 0) return { segments, unclosed: null };
+    const close = expression.indexOf('}}', open + 2);
+    if (close < 0) return { segments, unclosed: open };
+    segments.push({ code: expression.slice(open + 2, close), start: open + 2 });
+    index = close + 2;
+  }
+}
+
+/**
+ * Nodes referenced by name in an expression's code
+ */
+export function findNodeReferences(expression: string): NodeReference[] {
+  const references: NodeReference[] = [];
+  const patterns: Array<{ syntax: NodeReference['syntax']; pattern: RegExp }> = [
+    { syntax: '$()', pattern: /\$\(\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1\s*\)/g },
+    { syntax: '$node[]', pattern: /\$node\s*\[\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1\s*\]/g },
+    { syntax: '$items()', pattern: /\$items\s*\(\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1/g },
+  ];
+
+  for (const { syntax, pattern } of patterns) {
+    for (const match of expression.matchAll(pattern)) {
+      // Template literals with placeholders name a node only at runtime
+      if (match[1] === '`' && match[2].includes('${')) continue;
+      const start = match.index! + match[0].indexOf(match[1]) + 1;
+      references.push({ name: unescape(match[2]), syntax, start, end: start + match[2].length });
+    }
+  }
+  for (const match of expression.matchAll(/\$node\s*\.\s*([A-Za-z_$][\w$]*)/g)) {
+    const start = match.index! + match[0].length - match[1].length;
+    references.push({ name: match[1], syntax: '$node.', start, end: start + match[1].length });
+  }
+  return references.sort((a, b) => a.start - b.start);
+}
+
+function lintValue(
+  value: string,
+  path: string,
+  context: { node: string; nodeType: string; names: string[]; upstream: Set<string> }
+): ExpressionIssue[] {
+  const issues: ExpressionIssue[] = [];
+  const issue = (severity: ExpressionIssue['severity'], message: string, suggestion?: string) =>
+    issues.push({ severity, node: context.node, nodeType: context.nodeType, path, message, ...(suggestion ? { suggestion } : {}) });
+
+  if (!value.startsWith('=')) {
+    // Plain text with {{ }} is sent literally; n8n only evaluates strings starting with "="
+    if (/\{\{[\s\S]*\$[\s\S]*\}\}/.test(value)) {
+      issue('warning', 'Value contains {{ }} but is not an expression, so it is used as literal text', 'Prefix the value with "=" to make it an expression');
+    }
+    return issues;
+  }
+
+  const expression = value.slice(1);
+  const { segments, unclosed } = parseExpression(expression);
+  if (unclosed !== null) {
+    issue('error', `Unclosed "{{" at position ${unclosed + 1} of the expression`, 'Close the expression with "}}"');
+  }
+
+  for (const segment of segments) {
+    if (segment.code.trim() === '') {
+      issue('warning', 'Empty expression "{{ }}"');
+      continue;
+    }
+
+    const syntaxError = checkSyntax(segment.code);
+    if (syntaxError) {
+      issue('error', `Syntax error in expression {{${segment.code}}}: ${syntaxError}`);
+    }
+
+    for (const { pattern, message, suggestion } of DEPRECATED) {
+      if (pattern.test(segment.code)) issue('warning', message, suggestion);
+    }
+
+    for (const reference of findNodeReferences(segment.code)) {
+      if (!context.names.includes(reference.name)) {
+        const similar = closestName(reference.name, context.names);
+        issue('error', `Expression references node "${reference.name}", which does not exist in the workflow`,
+          similar ? `Did you mean "${similar}"?` : 'Reference an existing node by its exact name');
+      } else if (!context.upstream.has(reference.name)) {
+        issue('warning', `Expression references node "${reference.name}", which does not run before "${context.node}"`,
+          'Only nodes connected upstream have data when the expression is evaluated; check the connections or the node name');
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Syntax error message for the expression code, or null when it parses. The
+ * code is compiled, never run.
+ */
+function checkSyntax(code: string): string | null {
+  try {
+    new Function(`return (${code}\n);`);
+    return null;
+  } catch (expressionError) {
+    // Expressions may also be written as statements, e.g. an IIFE spread over lines
+    try {
+      new Function(code);
+      return null;
+    } catch {
+      return expressionError instanceof Error ? expressionError.message : String(expressionError);
+    }
+  }
+}
+
+/**
+ * Nodes whose data is available to each node: everything upstream through
+ * main connections. AI sub-nodes run inside the node they are attached to and
+ * see what that node sees.
+ */
+function findUpstreamNodes(names: string[], edges: GraphEdge[]): Map<string, Set<string>> {
+  const parents = new Map<string, string[]>();
+  const attachedTo = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.type === 'main') {
+      parents.set(edge.target, [...(parents.get(edge.target) || []), edge.source]);
+    } else {
+      attachedTo.set(edge.source, [...(attachedTo.get(edge.source) || []), edge.target]);
+    }
+  }
+
+  const upstream = new Map<string, Set<string>>();
+  for (const name of names) {
+    const seen = new Set<string>();
+    const queue = [...(parents.get(name) || [])];
+    const roots = [...(attachedTo.get(name) || [])];
+    // Walk up through the nodes this sub-node is attached to, without counting them as upstream
+    const visitedRoots = new Set<string>();
+    while (roots.length > 0) {
+      const root = roots.shift()!;
+      if (visitedRoots.has(root)) continue;
+      visitedRoots.add(root);
+      queue.push(...(parents.get(root) || []));
+      roots.push(...(attachedTo.get(root) || []));
+    }
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      queue.push(...(parents.get(current) || []));
+    }
+    upstream.set(name, seen);
+  }
+  return upstream;
+}
+
+function forEachString(value: any, path: string, callback: (value: string, path: string) => void) {
+  if (typeof value === 'string') {
+    callback(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => forEachString(item, `${path}[${i}]`, callback));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      forEachString(item, /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}["${key}"]`, callback);
+    }
+  }
+}
+
+function closestName(name: string, names: string[]): string | null {
+  const lower = name.toLowerCase();
+  const caseInsensitive = names.find(n => n.toLowerCase() === lower);
+  if (caseInsensitive) return caseInsensitive;
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of names) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== null && bestDistance <= Math.max(2, Math.floor(name.length / 3)) ? best : null;
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
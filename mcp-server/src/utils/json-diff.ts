@@ -0,0 +1,48 @@
+/**
+ * Structural diff of two JSON values, reported as a list of changed paths
+ * (e.g. `parameters.options.timeout`, `rules.values[0].value`)
+ */
+
+export interface JsonChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  from?: any;
+  to?: any;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) return base ? `${base}.${key}` : key;
+  return `${base}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function diffJson(from: any, to: any, basePath: string = ''): JsonChange[] {
+  if (from === to) return [];
+
+  if (from === undefined) return [{ path: basePath, type: 'added', to }];
+  if (to === undefined) return [{ path: basePath, type: 'removed', from }];
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const changes: JsonChange[] = [];
+    const length = Math.max(from.length, to.length);
+    for (let i = 0; i < length; i++) {
+      changes.push(...diffJson(from[i], to[i], joinPath(basePath, i)));
+    }
+    return changes;
+  }
+
+  if (isObject(from) && isObject(to)) {
+    const changes: JsonChange[] = [];
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of keys) {
+      changes.push(...diffJson(from[key], to[key], joinPath(basePath, key)));
+    }
+    return changes;
+  }
+
+  return [{ path: basePath, type: 'changed', from, to }];
+}
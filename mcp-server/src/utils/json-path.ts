@@ -0,0 +1,100 @@
+/**
+ * Minimal JSONPath evaluation for test assertions. Supports the root ($),
+ * child access (.key, ['key']), array indexes ([0], [-1]), wildcards (.*, [*])
+ * and recursive descent (..key). Filters and slices are not supported.
+ */
+
+type Segment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descend'; key: string | null };
+
+/**
+ * All values matched by the path (an empty list when nothing matches)
+ */
+export function queryJsonPath(value: any, path: string): any[] {
+  let current: any[] = [value];
+  for (const segment of parseJsonPath(path)) {
+    current = current.flatMap(v => applySegment(v, segment));
+  }
+  return current;
+}
+
+function parseJsonPath(path: string): Segment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: Segment[] = [];
+  let i = 1;
+  while (i < trimmed.length) {
+    if (trimmed.startsWith('..', i)) {
+      i += 2;
+      const match = /^(\*|[A-Za-z_$][\w$-]*)/.exec(trimmed.slice(i));
+      if (!match) throw new Error(`Expected a key after ".." at position ${i} in ${path}`);
+      segments.push({ kind: 'descend', key: match[1] === '*' ? null : match[1] });
+      i += match[1].length;
+    } else if (trimmed[i] === '.') {
+      i += 1;
+      const match = /^(\*|[A-Za-z_$][\w$-]*)/.exec(trimmed.slice(i));
+      if (!match) throw new Error(`Expected a key at position ${i} in ${path}`);
+      segments.push(match[1] === '*' ? { kind: 'wildcard' } : { kind: 'key', key: match[1] });
+      i += match[1].length;
+    } else if (trimmed[i] === '[') {
+      const end = findClosingBracket(trimmed, i);
+      const inner = trimmed.slice(i + 1, end).trim();
+      if (inner === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: 'index', index: Number(inner) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ kind: 'key', key: inner.slice(1, -1) });
+      } else {
+        throw new Error(`Unsupported JSONPath selector [${inner}] in ${path}`);
+      }
+      i = end + 1;
+    } else {
+      throw new Error(`Unexpected "${trimmed[i]}" at position ${i} in ${path}`);
+    }
+  }
+  return segments;
+}
+
+function applySegment(value: any, segment: Segment): any[] {
+  switch (segment.kind) {
+    case 'key':
+      return value !== null && typeof value === 'object' && segment.key in value ? [value[segment.key]] : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'wildcard':
+      return value !== null && typeof value === 'object' ? Object.values(value) : [];
+    case 'descend':
+      return descend(value, segment.key);
+  }
+}
+
+function descend(value: any, key: string | null): any[] {
+  if (value === null || typeof value !== 'object') return [];
+  const own = key === null ? Object.values(value) : key in value ? [value[key]] : [];
+  return [...own, ...Object.values(value).flatMap(child => descend(child, key))];
+}
+
+function findClosingBracket(path: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+  throw new Error(`Unclosed [ in ${path}`);
+}
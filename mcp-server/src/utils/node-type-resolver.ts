@@ -0,0 +1,194 @@
+/**
+ * Resolves loosely written node types ("slack", "Slack", "httprequest",
+ * "@n8n/n8n-nodes-langchain.agent", aliases) to the node_type stored in the
+ * node database, with "did you mean" suggestions when nothing matches.
+ */
+
+export interface NodeTypeCandidate {
+  node_type: string;
+  display_name: string;
+  aliases?: string[];
+}
+
+export type NodeTypeMatch = 'exact' | 'case-insensitive' | 'name' | 'display-name' | 'alias';
+
+export interface NodeTypeSuggestion {
+  nodeType: string;
+  workflowNodeType: string;
+  displayName: string;
+  distance: number;
+}
+
+export interface NodeTypeResolution {
+  input: string;
+  /** Database node type (e.g. "nodes-base.slack"), null when nothing matched */
+  nodeType: string | null;
+  /** Type to use in workflow JSON (e.g. "n8n-nodes-base.slack") */
+  workflowNodeType?: string;
+  matchedBy?: NodeTypeMatch;
+  /** Other nodes that matched equally well (e.g. "code" in both packages) */
+  alternatives?: string[];
+  suggestions: NodeTypeSuggestion[];
+}
+
+// Package prefixes used in workflow JSON -> prefixes stored in the database
+const PACKAGE_PREFIXES: Array<[string, string]> = [
+  ['@n8n/n8n-nodes-langchain.', 'nodes-langchain.'],
+  ['n8n-nodes-langchain.', 'nodes-langchain.'],
+  ['n8n-nodes-base.', 'nodes-base.'],
+];
+
+// Packages of the node database; types from other packages are only matched exactly
+const CORE_PACKAGES = ['nodes-base', 'nodes-langchain'];
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Convert a workflow node type to the database form ("n8n-nodes-base.slack" -> "nodes-base.slack")
+ */
+export function toDatabaseNodeType(nodeType: string): string {
+  for (const [workflowPrefix, dbPrefix] of PACKAGE_PREFIXES) {
+    if (nodeType.toLowerCase().startsWith(workflowPrefix.toLowerCase())) {
+      return dbPrefix + nodeType.slice(workflowPrefix.length);
+    }
+  }
+  return nodeType;
+}
+
+/**
+ * Convert a database node type to the form used in workflow JSON ("nodes-base.slack" -> "n8n-nodes-base.slack")
+ */
+export function toWorkflowNodeType(nodeType: string): string {
+  if (nodeType.startsWith('nodes-base.')) return `n8n-${nodeType}`;
+  if (nodeType.startsWith('nodes-langchain.')) return `@n8n/n8n-${nodeType}`;
+  return nodeType;
+}
+
+/**
+ * Lowercase and strip everything but letters and digits ("HTTP Request" -> "httprequest")
+ */
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function baseName(nodeType: string): string {
+  return nodeType.slice(nodeType.lastIndexOf('.') + 1);
+}
+
+/**
+ * Whether a database node type names no package ("slack") or a core package
+ * ("nodes-base.slack"), as opposed to a community package ("n8n-nodes-acme.slack")
+ */
+function isCorePackage(nodeType: string): boolean {
+  const dot = nodeType.lastIndexOf('.');
+  return dot < 0 || CORE_PACKAGES.includes(nodeType.slice(0, dot).toLowerCase());
+}
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class NodeTypeResolver {
+  constructor(private candidates: NodeTypeCandidate[]) {}
+
+  resolve(input: string): NodeTypeResolution {
+    const trimmed = (input || '').trim();
+    const dbType = toDatabaseNodeType(trimmed);
+    const key = compact(baseName(dbType));
+
+    const exact = this.candidates.find(c => c.node_type === dbType);
+    if (exact) {
+      return this.matched(trimmed, [exact], 'exact');
+    }
+
+    const caseInsensitive = this.candidates.filter(c => c.node_type.toLowerCase() === dbType.toLowerCase());
+    if (caseInsensitive.length > 0) {
+      return this.matched(trimmed, caseInsensitive, 'case-insensitive');
+    }
+
+    // "n8n-nodes-acme.slack" is a different node than the core Slack node
+    if (!isCorePackage(dbType)) {
+      return this.unresolved(trimmed);
+    }
+
+    const byName = this.candidates.filter(c => compact(baseName(c.node_type)) === key);
+    if (byName.length > 0) {
+      return this.matched(trimmed, byName, 'name');
+    }
+
+    const byDisplayName = this.candidates.filter(c => compact(c.display_name || '') === key);
+    if (byDisplayName.length > 0) {
+      return this.matched(trimmed, byDisplayName, 'display-name');
+    }
+
+    const byAlias = this.candidates.filter(c => (c.aliases || []).some(a => compact(a) === key));
+    if (byAlias.length > 0) {
+      return this.matched(trimmed, byAlias, 'alias');
+    }
+
+    return this.unresolved(trimmed);
+  }
+
+  /**
+   * Closest candidates by edit distance over node names, display names and aliases
+   */
+  suggest(input: string, limit: number = MAX_SUGGESTIONS): NodeTypeSuggestion[] {
+    const key = compact(baseName(toDatabaseNodeType(input.trim())));
+    if (!key) return [];
+
+    return this.candidates
+      .map(c => {
+        const forms = [baseName(c.node_type), c.display_name || '', ...(c.aliases || [])].map(compact).filter(Boolean);
+        const distance = Math.min(...forms.map(f => editDistance(key, f)));
+        return {
+          nodeType: c.node_type,
+          workflowNodeType: toWorkflowNodeType(c.node_type),
+          displayName: c.display_name,
+          distance,
+        };
+      })
+      .sort((a, b) => a.distance - b.distance || a.nodeType.localeCompare(b.nodeType))
+      .slice(0, limit);
+  }
+
+  private unresolved(input: string): NodeTypeResolution {
+    return {
+      input,
+      nodeType: null,
+      suggestions: this.suggest(input),
+    };
+  }
+
+  private matched(input: string, matches: NodeTypeCandidate[], matchedBy: NodeTypeMatch): NodeTypeResolution {
+    // Prefer core nodes over same-named nodes from other packages (e.g. "code")
+    const sorted = [...matches].sort((a, b) =>
+      Number(b.node_type.startsWith('nodes-base.')) - Number(a.node_type.startsWith('nodes-base.'))
+    );
+    const [best, ...rest] = sorted;
+
+    return {
+      input,
+      nodeType: best.node_type,
+      workflowNodeType: toWorkflowNodeType(best.node_type),
+      matchedBy,
+      ...(rest.length > 0 ? { alternatives: rest.map(c => c.node_type) } : {}),
+      suggestions: [],
+    };
+  }
+}
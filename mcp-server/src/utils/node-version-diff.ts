@@ -0,0 +1,164 @@
+import { stableStringify } from './stable-json.js';
+import { OperationTreeResource } from './operation-tree.js';
+
+/**
+ * Parameter-level comparison of two typeVersions of the same node
+ */
+
+export interface NodeVersionSchema {
+  version: number;
+  properties: any[];
+  credentials: any[];
+  operationTree?: OperationTreeResource[] | null;
+}
+
+export interface ParameterSummary {
+  name: string;
+  displayName?: string;
+  type?: string;
+  required?: boolean;
+  /** displayOptions.show (without @version), set when a parameter is defined more than once */
+  shownWhen?: Record<string, any>;
+}
+
+export interface ParameterChange extends ParameterSummary {
+  changes: Record<string, any>;
+}
+
+export interface NodeVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  parameters: {
+    added: ParameterSummary[];
+    removed: ParameterSummary[];
+    changed: ParameterChange[];
+  };
+  operations: {
+    added: string[];
+    removed: string[];
+  };
+  credentials: {
+    added: string[];
+    removed: string[];
+  };
+  summary: string;
+}
+
+/**
+ * displayOptions without the @version rules, which differ between versions by design
+ */
+function conditionsWithoutVersion(property: any): any {
+  const strip = (rules: any) => {
+    if (!rules) return undefined;
+    const { '@version': _version, ...rest } = rules;
+    return Object.keys(rest).length > 0 ? rest : undefined;
+  };
+  return {
+    show: strip(property.displayOptions?.show),
+    hide: strip(property.displayOptions?.hide),
+  };
+}
+
+function propertyKey(property: any): string {
+  return `${property.name}::${stableStringify(conditionsWithoutVersion(property))}`;
+}
+
+function summarize(property: any, duplicated: boolean): ParameterSummary {
+  const conditions = conditionsWithoutVersion(property);
+  return {
+    name: property.name,
+    displayName: property.displayName,
+    type: property.type,
+    ...(property.required ? { required: true } : {}),
+    ...(duplicated && conditions.show ? { shownWhen: conditions.show } : {}),
+  };
+}
+
+function describeChanges(from: any, to: any): Record<string, any> {
+  const changes: Record<string, any> = {};
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  for (const field of fields) {
+    if (field === 'displayOptions') continue;
+    if (stableStringify(from[field]) === stableStringify(to[field])) continue;
+
+    if (field === 'options' && Array.isArray(from.options) && Array.isArray(to.options)) {
+      const fromValues = from.options.map((o: any) => o.value ?? o.name);
+      const toValues = to.options.map((o: any) => o.value ?? o.name);
+      const added = toValues.filter((v: any) => !fromValues.includes(v));
+      const removed = fromValues.filter((v: any) => !toValues.includes(v));
+      changes.options = added.length > 0 || removed.length > 0
+        ? { added, removed }
+        : { modified: true };
+      continue;
+    }
+
+    changes[field] = { from: from[field], to: to[field] };
+  }
+
+  return changes;
+}
+
+function operationKeys(tree: OperationTreeResource[] | null | undefined): string[] {
+  return (tree || []).flatMap(r => r.operations.map(o => (r.resource ? `${r.resource}/${o.operation}` : o.operation)));
+}
+
+export function diffNodeVersions(from: NodeVersionSchema, to: NodeVersionSchema): NodeVersionDiff {
+  const countNames = (properties: any[]) => properties.reduce((counts, p) => {
+    counts.set(p.name, (counts.get(p.name) || 0) + 1);
+    return counts;
+  }, new Map<string, number>());
+  const fromCounts = countNames(from.properties);
+  const toCounts = countNames(to.properties);
+  const isDuplicated = (name: string) => (fromCounts.get(name) || 0) > 1 || (toCounts.get(name) || 0) > 1;
+
+  const fromByKey = new Map(from.properties.map(p => [propertyKey(p), p]));
+  const toByKey = new Map(to.properties.map(p => [propertyKey(p), p]));
+
+  const added: ParameterSummary[] = [];
+  const removed: ParameterSummary[] = [];
+  const changed: ParameterChange[] = [];
+
+  for (const [key, property] of toByKey) {
+    const previous = fromByKey.get(key);
+    if (!previous) {
+      added.push(summarize(property, isDuplicated(property.name)));
+      continue;
+    }
+    const changes = describeChanges(previous, property);
+    if (Object.keys(changes).length > 0) {
+      changed.push({ ...summarize(property, isDuplicated(property.name)), changes });
+    }
+  }
+
+  for (const [key, property] of fromByKey) {
+    if (!toByKey.has(key)) {
+      removed.push(summarize(property, isDuplicated(property.name)));
+    }
+  }
+
+  const fromOperations = operationKeys(from.operationTree);
+  const toOperations = operationKeys(to.operationTree);
+  const fromCredentials = from.credentials.map(c => c.name);
+  const toCredentials = to.credentials.map(c => c.name);
+
+  const diff: NodeVersionDiff = {
+    fromVersion: from.version,
+    toVersion: to.version,
+    parameters: { added, removed, changed },
+    operations: {
+      added: toOperations.filter(o => !fromOperations.includes(o)),
+      removed: fromOperations.filter(o => !toOperations.includes(o)),
+    },
+    credentials: {
+      added: toCredentials.filter(c => !fromCredentials.includes(c)),
+      removed: fromCredentials.filter(c => !toCredentials.includes(c)),
+    },
+    summary: '',
+  };
+
+  diff.summary = `${added.length} parameter(s) added, ${removed.length} removed, ${changed.length} changed; ` +
+    `${diff.operations.added.length} operation(s) added, ${diff.operations.removed.length} removed`;
+
+  return diff;
+}
@@ -0,0 +1,97 @@
+import { NON_VALUE_TYPES, getVisibleProperties } from './display-options.js';
+
+/**
+ * Resource -> operation -> parameters tree for nodes that follow n8n's
+ * resource/operation pattern (Slack, Google Sheets, ...). Nodes with only an
+ * "operation" parameter get a single entry with a null resource.
+ */
+
+export interface OperationTreeOperation {
+  operation: string;
+  name: string;
+  description?: string;
+  action?: string;
+  /** Names of the parameters shown for this resource + operation */
+  parameters: string[];
+}
+
+export interface OperationTreeResource {
+  resource: string | null;
+  name?: string;
+  description?: string;
+  operations: OperationTreeOperation[];
+}
+
+// Parameters that select the operation rather than configure it
+const SELECTOR_PARAMETERS = ['resource', 'operation'];
+
+function findOptionsProperty(properties: any[], name: string, parameters: Record<string, any>, typeVersion?: number): any {
+  return getVisibleProperties(properties, { parameters, typeVersion })
+    .find(p => p.name === name && Array.isArray(p.options));
+}
+
+/**
+ * Build the operation tree by evaluating displayOptions for every resource/operation pair
+ */
+export function buildOperationTree(properties: any[], typeVersion?: number): OperationTreeResource[] | null {
+  if (!Array.isArray(properties) || properties.length === 0) return null;
+
+  const resourceProperty = findOptionsProperty(properties, 'resource', {}, typeVersion);
+  const resources: Array<any | null> = resourceProperty ? resourceProperty.options : [null];
+  const tree: OperationTreeResource[] = [];
+
+  for (const resource of resources) {
+    const resourceParams = resource ? { resource: resource.value } : {};
+    const operationProperty = findOptionsProperty(properties, 'operation', resourceParams, typeVersion);
+    if (!operationProperty) {
+      if (resource) {
+        tree.push({ resource: resource.value, name: resource.name, description: resource.description, operations: [] });
+      }
+      continue;
+    }
+
+    tree.push({
+      resource: resource ? resource.value : null,
+      ...(resource ? { name: resource.name, description: resource.description } : {}),
+      operations: operationProperty.options.map((option: any) => ({
+        operation: option.value,
+        name: option.name,
+        description: option.description,
+        action: option.action,
+        parameters: [...new Set(
+          getOperationParameters(properties, resource ? resource.value : null, option.value, typeVersion).map(p => p.name)
+        )],
+      })),
+    });
+  }
+
+  return tree.length > 0 ? tree : null;
+}
+
+/**
+ * Parameters (full property definitions) shown for one resource + operation pair
+ */
+export function getOperationParameters(properties: any[], resource: string | null, operation: string, typeVersion?: number): any[] {
+  const parameters: Record<string, any> = { operation };
+  if (resource !== null) {
+    parameters.resource = resource;
+  }
+
+  return getVisibleProperties(properties, { parameters, typeVersion })
+    .filter(p => !SELECTOR_PARAMETERS.includes(p.name) && !NON_VALUE_TYPES.includes(p.type));
+}
+
+/**
+ * Flatten the tree into the list of operation options (stored in the `operations` column)
+ */
+export function flattenOperationTree(tree: OperationTreeResource[]): any[] {
+  return tree.flatMap(resource =>
+    resource.operations.map(op => ({
+      resource: resource.resource,
+      value: op.operation,
+      name: op.name,
+      description: op.description,
+      action: op.action,
+    }))
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * JSON serialization with object keys sorted, so equal values always
+ * produce identical strings (for comparisons and reviewable files)
+ */
+
+export function sortKeysDeep(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeysDeep);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeysDeep(value[key])])
+    );
+  }
+  return value;
+}
+
+export function stableStringify(value: any, space?: number): string {
+  return JSON.stringify(sortKeysDeep(value), null, space);
+}
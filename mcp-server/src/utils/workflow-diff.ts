@@ -0,0 +1,208 @@
+import { diffJson, JsonChange } from './json-diff.js';
+import { parseConnections } from './workflow-graph.js';
+
+/**
+ * Semantic comparison of two workflow definitions at the level of nodes and
+ * connections. Nodes are matched by `id` (falling back to name for nodes
+ * without one), so renames show up as renames rather than remove + add.
+ */
+
+export interface NodeRef {
+  id?: string;
+  name: string;
+  type: string;
+}
+
+export interface NodeModification {
+  id?: string;
+  name: string;
+  type: string;
+  /** Changes inside `parameters`, with JSON paths */
+  parameterChanges: JsonChange[];
+  /** Changes to other node fields (typeVersion, credentials, disabled, ...) */
+  otherChanges: JsonChange[];
+}
+
+export interface NodeMove {
+  name: string;
+  from: [number, number];
+  to: [number, number];
+}
+
+export interface ConnectionRef {
+  from: string;
+  to: string;
+  type: string;
+  outputIndex: number;
+  inputIndex: number;
+}
+
+export interface WorkflowDiff {
+  name?: { from: string; to: string };
+  nodes: {
+    added: NodeRef[];
+    removed: NodeRef[];
+    renamed: Array<{ id?: string; from: string; to: string }>;
+    modified: NodeModification[];
+    /** Position-only changes; cosmetic, they do not affect execution */
+    moved: NodeMove[];
+  };
+  connections: {
+    added: ConnectionRef[];
+    removed: ConnectionRef[];
+  };
+  settings: JsonChange[];
+  summary: {
+    nodesAdded: number;
+    nodesRemoved: number;
+    nodesRenamed: number;
+    nodesModified: number;
+    nodesMoved: number;
+    connectionsAdded: number;
+    connectionsRemoved: number;
+    settingsChanged: number;
+    identical: boolean;
+    cosmeticOnly: boolean;
+  };
+}
+
+// Node fields compared separately or not meaningful for a diff
+const IGNORED_NODE_FIELDS = ['id', 'name', 'parameters', 'position'];
+
+function nodeKey(node: any): string {
+  return node.id ? `id:${node.id}` : `name:${node.name}`;
+}
+
+function toRef(node: any): NodeRef {
+  return { ...(node.id ? { id: node.id } : {}), name: node.name, type: node.type };
+}
+
+/**
+ * Match nodes across both sides: by id first, then by name for nodes without a match
+ */
+function matchNodes(fromNodes: any[], toNodes: any[]): Array<[any | undefined, any | undefined]> {
+  const pairs: Array<[any | undefined, any | undefined]> = [];
+  const unmatchedTo = new Set(toNodes);
+
+  for (const fromNode of fromNodes) {
+    let match = fromNode.id ? toNodes.find(n => n.id === fromNode.id && unmatchedTo.has(n)) : undefined;
+    if (!match) {
+      match = toNodes.find(n => n.name === fromNode.name && unmatchedTo.has(n) && (!n.id || !fromNode.id));
+    }
+    if (match) {
+      unmatchedTo.delete(match);
+    }
+    pairs.push([fromNode, match]);
+  }
+
+  for (const toNode of unmatchedTo) {
+    pairs.push([undefined, toNode]);
+  }
+
+  return pairs;
+}
+
+function withoutFields(node: any, fields: string[]): any {
+  return Object.fromEntries(Object.entries(node).filter(([key]) => !fields.includes(key)));
+}
+
+export function diffWorkflows(from: any, to: any): WorkflowDiff {
+  const fromNodes: any[] = Array.isArray(from?.nodes) ? from.nodes : [];
+  const toNodes: any[] = Array.isArray(to?.nodes) ? to.nodes : [];
+
+  const added: NodeRef[] = [];
+  const removed: NodeRef[] = [];
+  const renamed: Array<{ id?: string; from: string; to: string }> = [];
+  const modified: NodeModification[] = [];
+  const moved: NodeMove[] = [];
+
+  // Node identity keys on each side, used to compare connections independent of renames
+  const fromIdentity = new Map<string, string>();
+  const toIdentity = new Map<string, string>();
+
+  for (const [fromNode, toNode] of matchNodes(fromNodes, toNodes)) {
+    if (!toNode) {
+      removed.push(toRef(fromNode));
+      fromIdentity.set(fromNode.name, nodeKey(fromNode));
+      continue;
+    }
+    if (!fromNode) {
+      added.push(toRef(toNode));
+      toIdentity.set(toNode.name, nodeKey(toNode));
+      continue;
+    }
+
+    const identity = nodeKey(fromNode);
+    fromIdentity.set(fromNode.name, identity);
+    toIdentity.set(toNode.name, identity);
+
+    if (fromNode.name !== toNode.name) {
+      renamed.push({ ...(toNode.id ? { id: toNode.id } : {}), from: fromNode.name, to: toNode.name });
+    }
+
+    const parameterChanges = diffJson(fromNode.parameters || {}, toNode.parameters || {}, 'parameters');
+    const otherChanges = diffJson(
+      withoutFields(fromNode, IGNORED_NODE_FIELDS),
+      withoutFields(toNode, IGNORED_NODE_FIELDS)
+    );
+    if (parameterChanges.length > 0 || otherChanges.length > 0) {
+      modified.push({
+        ...(toNode.id ? { id: toNode.id } : {}),
+        name: toNode.name,
+        type: toNode.type,
+        parameterChanges,
+        otherChanges,
+      });
+    }
+
+    if (JSON.stringify(fromNode.position) !== JSON.stringify(toNode.position)) {
+      moved.push({ name: toNode.name, from: fromNode.position, to: toNode.position });
+    }
+  }
+
+  // Connections compared by node identity so renames alone do not count as re-wiring
+  const edgeKey = (identity: Map<string, string>, edge: ReturnType<typeof parseConnections>[number]) =>
+    [identity.get(edge.source) || `name:${edge.source}`, edge.type, edge.outputIndex,
+      identity.get(edge.target) || `name:${edge.target}`, edge.inputIndex].join('|');
+  const toConnectionRef = (edge: ReturnType<typeof parseConnections>[number]): ConnectionRef => ({
+    from: edge.source,
+    to: edge.target,
+    type: edge.type,
+    outputIndex: edge.outputIndex,
+    inputIndex: edge.inputIndex,
+  });
+
+  const fromEdges = parseConnections(from?.connections);
+  const toEdges = parseConnections(to?.connections);
+  const fromEdgeKeys = new Set(fromEdges.map(e => edgeKey(fromIdentity, e)));
+  const toEdgeKeys = new Set(toEdges.map(e => edgeKey(toIdentity, e)));
+
+  const connectionsAdded = toEdges.filter(e => !fromEdgeKeys.has(edgeKey(toIdentity, e))).map(toConnectionRef);
+  const connectionsRemoved = fromEdges.filter(e => !toEdgeKeys.has(edgeKey(fromIdentity, e))).map(toConnectionRef);
+
+  // Proposed workflow JSON often omits name/settings; only compare them when present
+  const settings = to?.settings !== undefined ? diffJson(from?.settings || {}, to.settings || {}, 'settings') : [];
+  const nameChanged = to?.name !== undefined && from?.name !== to.name;
+
+  const functionalChanges = added.length + removed.length + renamed.length + modified.length +
+    connectionsAdded.length + connectionsRemoved.length + settings.length + (nameChanged ? 1 : 0);
+
+  return {
+    ...(nameChanged ? { name: { from: from?.name, to: to?.name } } : {}),
+    nodes: { added, removed, renamed, modified, moved },
+    connections: { added: connectionsAdded, removed: connectionsRemoved },
+    settings,
+    summary: {
+      nodesAdded: added.length,
+      nodesRemoved: removed.length,
+      nodesRenamed: renamed.length,
+      nodesModified: modified.length,
+      nodesMoved: moved.length,
+      connectionsAdded: connectionsAdded.length,
+      connectionsRemoved: connectionsRemoved.length,
+      settingsChanged: settings.length,
+      identical: functionalChanges === 0 && moved.length === 0,
+      cosmeticOnly: functionalChanges === 0 && moved.length > 0,
+    },
+  };
+}
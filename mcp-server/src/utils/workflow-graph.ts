@@ -0,0 +1,105 @@
+/**
+ * Helpers for working with the `connections` object of an n8n workflow.
+ *
+ * n8n stores connections keyed by source node name:
+ *   { "Source": { "main": [ [ { node: "Target", type: "main", index: 0 } ], ... ] } }
+ * where the outer array index is the source output index and `index` is the
+ * target input index.
+ */
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  /** Connection type, e.g. "main", "ai_tool", "ai_languageModel" */
+  type: string;
+  outputIndex: number;
+  inputIndex: number;
+}
+
+export const STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+
+/**
+ * Flatten a connections object into a list of edges
+ */
+export function parseConnections(connections: any): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  if (!connections || typeof connections !== 'object') return edges;
+
+  for (const [source, byType] of Object.entries<any>(connections)) {
+    if (!byType || typeof byType !== 'object') continue;
+
+    for (const [type, outputs] of Object.entries<any>(byType)) {
+      if (!Array.isArray(outputs)) continue;
+
+      outputs.forEach((targets: any, outputIndex: number) => {
+        if (!Array.isArray(targets)) return;
+        for (const target of targets) {
+          if (!target || typeof target.node !== 'string') continue;
+          edges.push({
+            source,
+            target: target.node,
+            type: target.type || type,
+            outputIndex,
+            inputIndex: typeof target.index === 'number' ? target.index : 0,
+          });
+        }
+      });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Map of node name -> names of nodes it feeds through connections of one type
+ */
+export function buildAdjacency(edges: GraphEdge[], type: string = 'main'): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.type !== type) continue;
+    const targets = adjacency.get(edge.source) || [];
+    if (!targets.includes(edge.target)) targets.push(edge.target);
+    adjacency.set(edge.source, targets);
+  }
+  return adjacency;
+}
+
+/**
+ * Find cycles in the "main" connection graph. Each cycle is returned once,
+ * as the list of node names along it.
+ */
+export function findCycles(edges: GraphEdge[]): string[][] {
+  const adjacency = buildAdjacency(edges);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    stack.push(node);
+
+    for (const next of adjacency.get(node) || []) {
+      const nextState = state.get(next);
+      if (nextState === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+        const key = [...cycle].sort().join('\u0000');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!nextState) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(node, 'done');
+  };
+
+  for (const node of adjacency.keys()) {
+    if (!state.has(node)) visit(node);
+  }
+
+  return cycles;
+}
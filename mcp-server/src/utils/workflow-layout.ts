@@ -0,0 +1,240 @@
+import { GraphEdge, STICKY_NOTE_TYPE, parseConnections } from './workflow-graph.js';
+
+/**
+ * Canvas layout for workflows, computed from the connection graph.
+ *
+ * Nodes connected through "main" connections are placed in layers from left to
+ * right: every node sits one column after the furthest node feeding it. The
+ * first output of a node continues on the same row; every further output
+ * (If false, Switch outputs 1..n) starts a row below, so branches never overlap.
+ * AI sub-nodes (language models, memory, tools: nodes connected only through
+ * ai_* connections) are placed in a row beneath the node they attach to.
+ * Sticky notes keep their position.
+ */
+
+export interface LayoutOptions {
+  /** Position of the first root node (default: [240, 300]) */
+  origin?: [number, number];
+  /** Horizontal distance between layers (default: 220) */
+  columnWidth?: number;
+  /** Vertical distance between branch rows (default: 200) */
+  rowHeight?: number;
+}
+
+export interface LayoutResult<T> {
+  workflow: T;
+  /** Names of nodes whose position changed */
+  moved: string[];
+}
+
+const DEFAULT_ORIGIN: [number, number] = [240, 300];
+const DEFAULT_COLUMN_WIDTH = 220;
+const DEFAULT_ROW_HEIGHT = 200;
+// Sub-nodes are smaller than regular nodes and sit closer together
+const SUB_NODE_WIDTH = 140;
+const SUB_NODE_HEIGHT = 160;
+
+/**
+ * Lay out the workflow's nodes; returns a copy with new positions
+ */
+export function layoutWorkflow<T extends { nodes: any[]; connections?: any }>(workflow: T, options: LayoutOptions = {}): LayoutResult<T> {
+  const origin = options.origin ?? DEFAULT_ORIGIN;
+  const columnWidth = options.columnWidth ?? DEFAULT_COLUMN_WIDTH;
+  const rowHeight = options.rowHeight ?? DEFAULT_ROW_HEIGHT;
+
+  const nodes: any[] = structuredClone(workflow.nodes || []);
+  const names = nodes.filter(n => n?.type !== STICKY_NOTE_TYPE).map(n => n.name as string);
+  const known = new Set(names);
+  const edges = parseConnections(workflow.connections)
+    .filter(e => known.has(e.source) && known.has(e.target) && e.source !== e.target);
+
+  const subNodeParents = findSubNodeParents(names, edges);
+  const mainNodes = names.filter(n => !subNodeParents.has(n));
+  const children = new Map<string, string[]>();
+  for (const [subNode, parent] of subNodeParents) {
+    children.set(parent, [...(children.get(parent) || []), subNode]);
+  }
+
+  const mainEdges = edges.filter(e => e.type === 'main' && !subNodeParents.has(e.source) && !subNodeParents.has(e.target));
+  const columns = assignColumns(mainNodes, mainEdges);
+  const rows = assignRows(mainNodes, mainEdges);
+
+  // Columns and rows grow to make room for the sub-nodes beneath their nodes
+  const columnWidths = new Map<number, number>();
+  const rowHeights = new Map<number, number>();
+  for (const name of mainNodes) {
+    const column = columns.get(name)!;
+    const row = rows.get(name)!;
+    columnWidths.set(column, Math.max(columnWidths.get(column) ?? columnWidth, subTreeWidth(name, children) + SUB_NODE_WIDTH / 2));
+    rowHeights.set(row, Math.max(rowHeights.get(row) ?? rowHeight, rowHeight + subTreeDepth(name, children) * SUB_NODE_HEIGHT));
+  }
+  const columnX = offsets(columnWidths, origin[0]);
+  const rowY = offsets(rowHeights, origin[1]);
+
+  const positions = new Map<string, [number, number]>();
+  for (const name of mainNodes) {
+    const position: [number, number] = [columnX.get(columns.get(name)!)!, rowY.get(rows.get(name)!)!];
+    positions.set(name, position);
+    placeSubNodes(name, position, children, positions);
+  }
+
+  const moved: string[] = [];
+  for (const node of nodes) {
+    const position = positions.get(node?.name);
+    if (!position) continue;
+    if (!Array.isArray(node.position) || node.position[0] !== position[0] || node.position[1] !== position[1]) {
+      moved.push(node.name);
+    }
+    node.position = position;
+  }
+
+  return { workflow: { ...workflow, nodes }, moved };
+}
+
+/**
+ * Sub-nodes are nodes whose outgoing connections are all non-main (ai_*) and
+ * that have no main input; each is attached to the target of its first connection
+ */
+function findSubNodeParents(names: string[], edges: GraphEdge[]): Map<string, string> {
+  const parents = new Map<string, string>();
+  for (const name of names) {
+    const outgoing = edges.filter(e => e.source === name);
+    if (outgoing.length === 0 || outgoing.some(e => e.type === 'main')) continue;
+    if (edges.some(e => e.target === name && e.type === 'main')) continue;
+    parents.set(name, outgoing[0].target);
+  }
+
+  // A sub-node attached (through other sub-nodes) to itself has no place below a regular node
+  for (const name of [...parents.keys()]) {
+    const seen = new Set<string>();
+    let current: string | undefined = name;
+    while (current !== undefined && parents.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = parents.get(current);
+    }
+    if (current !== undefined && parents.has(current)) {
+      parents.delete(name);
+    }
+  }
+  return parents;
+}
+
+/**
+ * Layer (column) per node: the longest path from a root, ignoring edges that
+ * close a loop
+ */
+function assignColumns(names: string[], edges: GraphEdge[]): Map<string, number> {
+  const forward = withoutBackEdges(names, edges);
+  const incoming = new Map(names.map(n => [n, 0]));
+  for (const edge of forward) incoming.set(edge.target, incoming.get(edge.target)! + 1);
+
+  const columns = new Map(names.map(n => [n, 0]));
+  const queue = names.filter(n => incoming.get(n) === 0);
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const edge of forward.filter(e => e.source === name)) {
+      columns.set(edge.target, Math.max(columns.get(edge.target)!, columns.get(name)! + 1));
+      incoming.set(edge.target, incoming.get(edge.target)! - 1);
+      if (incoming.get(edge.target) === 0) queue.push(edge.target);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Row per node: the first output of a node continues its row, every further
+ * branch and every further root starts a new row below the ones in use
+ */
+function assignRows(names: string[], edges: GraphEdge[]): Map<string, number> {
+  const rows = new Map<string, number>();
+  let nextRow = 0;
+
+  const visit = (name: string, row: number) => {
+    rows.set(name, row);
+    const targets = edges
+      .filter(e => e.source === name)
+      .sort((a, b) => a.outputIndex - b.outputIndex)
+      .map(e => e.target)
+      .filter((target, i, all) => all.indexOf(target) === i && !rows.has(target));
+    targets.forEach((target, i) => {
+      // A target may have been reached through an earlier branch in the meantime
+      if (rows.has(target)) return;
+      visit(target, i === 0 ? row : nextRow++);
+    });
+  };
+
+  for (const name of rootsFirst(names, edges)) {
+    if (!rows.has(name)) visit(name, nextRow++);
+  }
+  return rows;
+}
+
+/**
+ * Nodes without main inputs (triggers) first, then the rest in workflow order
+ * so that nodes only reachable through a loop still get a row
+ */
+function rootsFirst(names: string[], edges: GraphEdge[]): string[] {
+  const targets = new Set(edges.map(e => e.target));
+  return [...names.filter(n => !targets.has(n)), ...names.filter(n => targets.has(n))];
+}
+
+function withoutBackEdges(names: string[], edges: GraphEdge[]): GraphEdge[] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const back = new Set<GraphEdge>();
+
+  const visit = (name: string) => {
+    state.set(name, 'visiting');
+    for (const edge of edges.filter(e => e.source === name)) {
+      const targetState = state.get(edge.target);
+      if (targetState === 'visiting') {
+        back.add(edge);
+      } else if (!targetState) {
+        visit(edge.target);
+      }
+    }
+    state.set(name, 'done');
+  };
+
+  for (const name of rootsFirst(names, edges)) {
+    if (!state.has(name)) visit(name);
+  }
+  return edges.filter(e => !back.has(e));
+}
+
+/**
+ * Sub-nodes in a row beneath their node, starting at its x; nested sub-nodes
+ * (e.g. the model of a tool) go one more row down
+ */
+function placeSubNodes(name: string, position: [number, number], children: Map<string, string[]>, positions: Map<string, [number, number]>) {
+  let x = position[0];
+  for (const child of children.get(name) || []) {
+    const childPosition: [number, number] = [x, position[1] + SUB_NODE_HEIGHT];
+    positions.set(child, childPosition);
+    placeSubNodes(child, childPosition, children, positions);
+    x += subTreeWidth(child, children);
+  }
+}
+
+function subTreeWidth(name: string, children: Map<string, string[]>): number {
+  const own = children.get(name) || [];
+  return Math.max(SUB_NODE_WIDTH, own.reduce((sum, child) => sum + subTreeWidth(child, children), 0));
+}
+
+function subTreeDepth(name: string, children: Map<string, string[]>): number {
+  const own = children.get(name) || [];
+  return own.length === 0 ? 0 : 1 + Math.max(...own.map(child => subTreeDepth(child, children)));
+}
+
+/**
+ * Start coordinate of each column/row given their sizes
+ */
+function offsets(sizes: Map<number, number>, start: number): Map<number, number> {
+  const result = new Map<number, number>();
+  const max = Math.max(-1, ...sizes.keys());
+  let position = start;
+  for (let i = 0; i <= max; i++) {
+    result.set(i, position);
+    position += sizes.get(i) ?? 0;
+  }
+  return result;
+}
@@ -0,0 +1,353 @@
+import { randomUUID } from 'crypto';
+import { findNodeReferences, parseExpression } from './expression-linter.js';
+
+/**
+ * Partial workflow edits applied to a copy of the full workflow JSON, so fields
+ * the caller never touches (credentials, webhookId, ...) are preserved as-is.
+ */
+
+export type WorkflowPatchOperation =
+  | { type: 'addNode'; node: any }
+  | { type: 'removeNode'; name: string }
+  | { type: 'updateNodeParameters'; name: string; path: string; value?: any; remove?: boolean }
+  | { type: 'renameNode'; name: string; newName: string }
+  | { type: 'addConnection'; from: string; to: string; outputIndex?: number; inputIndex?: number; connectionType?: string }
+  | { type: 'removeConnection'; from: string; to: string; outputIndex?: number; inputIndex?: number; connectionType?: string }
+  | { type: 'setSetting'; key: string; value?: any };
+
+/**
+ * One place a node name was replaced by renameNodeInWorkflow
+ */
+export interface RenameChange {
+  /** The node itself, a connections key, a connection target or a parameter referencing the node */
+  location: 'node' | 'connections' | 'connection' | 'parameter';
+  /** Node holding the parameter (by its name after the rename) */
+  node?: string;
+  path: string;
+  before?: string;
+  after?: string;
+}
+
+export class WorkflowPatchError extends Error {
+  constructor(public operationIndex: number, public operation: any, message: string) {
+    super(`Operation ${operationIndex} (${operation?.type}): ${message}`);
+    this.name = 'WorkflowPatchError';
+  }
+}
+
+// Horizontal gap used to place added nodes without a position
+const NODE_SPACING = 220;
+// Parameters holding JavaScript (Code and legacy Function nodes) that can reference nodes with $('Name')
+const CODE_PARAMETERS = ['jsCode', 'functionCode'];
+// Path segments that would reach Object.prototype instead of a parameter
+const FORBIDDEN_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Apply operations in order to a deep copy of the workflow. Throws a
+ * WorkflowPatchError on the first failing operation; the input is never modified.
+ */
+export function applyWorkflowPatch(workflow: any, operations: WorkflowPatchOperation[]): any {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error('operations must be a non-empty array');
+  }
+
+  const patched = structuredClone(workflow);
+  patched.nodes = Array.isArray(patched.nodes) ? patched.nodes : [];
+  patched.connections = patched.connections || {};
+
+  operations.forEach((operation, index) => {
+    try {
+      applyOperation(patched, operation);
+    } catch (error) {
+      throw new WorkflowPatchError(index, operation, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  return patched;
+}
+
+/**
+ * Rename a node in place and rewrite every reference to it: connection keys and
+ * targets, and $('Name'), $node["Name"], $node.Name and $items("Name") in the
+ * expressions and Code node scripts of all nodes. Returns each location changed.
+ */
+export function renameNodeInWorkflow(workflow: any, oldName: string, newName: string): RenameChange[] {
+  const node = findNode(workflow, oldName);
+  if (!newName) {
+    throw new Error('newName is required');
+  }
+  if (oldName === newName) return [];
+  if (workflow.nodes.some((n: any) => n.name === newName)) {
+    throw new Error(`A node named "${newName}" already exists`);
+  }
+
+  node.name = newName;
+  const changes: RenameChange[] = [{ location: 'node', path: `nodes[${workflow.nodes.indexOf(node)}].name`, before: oldName, after: newName }];
+
+  const connections = workflow.connections || {};
+  if (connections[oldName]) {
+    // Rebuild the object so the renamed source keeps its place in the key order
+    for (const key of Object.keys(connections)) {
+      const outputs = connections[key];
+      delete connections[key];
+      connections[key === oldName ? newName : key] = outputs;
+    }
+    changes.push({ location: 'connections', path: `connections[${JSON.stringify(oldName)}]`, before: oldName, after: newName });
+  }
+  for (const [source, outputs] of Object.entries<any>(connections)) {
+    for (const [type, slots] of Object.entries<any>(outputs || {})) {
+      (slots || []).forEach((targets: any[], outputIndex: number) => {
+        (targets || []).forEach((target, i) => {
+          if (target?.node !== oldName) return;
+          target.node = newName;
+          changes.push({ location: 'connection', path: `connections[${JSON.stringify(source)}].${type}[${outputIndex}][${i}].node`, before: oldName, after: newName });
+        });
+      });
+    }
+  }
+
+  for (const current of workflow.nodes) {
+    if (!current?.parameters) continue;
+    current.parameters = renameInParameters(current.parameters, 'parameters', oldName, newName, (path, before, after) => {
+      changes.push({ location: 'parameter', node: current.name, path, before, after });
+    });
+  }
+
+  return changes;
+}
+
+function applyOperation(workflow: any, operation: WorkflowPatchOperation): void {
+  switch (operation?.type) {
+    case 'addNode': {
+      const node = operation.node;
+      if (!node || !node.name || !node.type) {
+        throw new Error('node with at least name and type is required');
+      }
+      if (workflow.nodes.some((n: any) => n.name === node.name)) {
+        throw new Error(`A node named "${node.name}" already exists`);
+      }
+      workflow.nodes.push({
+        id: randomUUID(),
+        parameters: {},
+        position: nextPosition(workflow.nodes),
+        ...structuredClone(node),
+      });
+      return;
+    }
+
+    case 'removeNode': {
+      findNode(workflow, operation.name);
+      workflow.nodes = workflow.nodes.filter((n: any) => n.name !== operation.name);
+      delete workflow.connections[operation.name];
+      for (const outputs of Object.values<any>(workflow.connections)) {
+        for (const type of Object.keys(outputs || {})) {
+          outputs[type] = (outputs[type] || []).map((targets: any[]) =>
+            (targets || []).filter(t => t?.node !== operation.name)
+          );
+        }
+      }
+      return;
+    }
+
+    case 'updateNodeParameters': {
+      const node = findNode(workflow, operation.name);
+      const segments = parsePath(operation.path);
+      if (segments.length === 0) {
+        throw new Error('path is required');
+      }
+      node.parameters = node.parameters || {};
+      if (operation.remove) {
+        unsetPath(node.parameters, segments);
+      } else {
+        setPath(node.parameters, segments, operation.value);
+      }
+      return;
+    }
+
+    case 'renameNode':
+      renameNodeInWorkflow(workflow, operation.name, operation.newName);
+      return;
+
+    case 'addConnection': {
+      findNode(workflow, operation.from);
+      findNode(workflow, operation.to);
+      const type = operation.connectionType || 'main';
+      const outputIndex = operation.outputIndex ?? 0;
+      const inputIndex = operation.inputIndex ?? 0;
+
+      const outputs = workflow.connections[operation.from] = workflow.connections[operation.from] || {};
+      const slots: any[][] = outputs[type] = outputs[type] || [];
+      while (slots.length <= outputIndex) {
+        slots.push([]);
+      }
+      slots[outputIndex] = slots[outputIndex] || [];
+      if (slots[outputIndex].some(t => t.node === operation.to && (t.index ?? 0) === inputIndex)) {
+        throw new Error(`Connection ${operation.from}[${outputIndex}] -> ${operation.to}[${inputIndex}] already exists`);
+      }
+      slots[outputIndex].push({ node: operation.to, type, index: inputIndex });
+      return;
+    }
+
+    case 'removeConnection': {
+      const type = operation.connectionType || 'main';
+      const slots: any[][] | undefined = workflow.connections[operation.from]?.[type];
+      let removed = 0;
+      (slots || []).forEach((targets, outputIndex) => {
+        if (operation.outputIndex !== undefined && outputIndex !== operation.outputIndex) return;
+        const kept = (targets || []).filter(t =>
+          !(t.node === operation.to && (operation.inputIndex === undefined || (t.index ?? 0) === operation.inputIndex))
+        );
+        removed += (targets || []).length - kept.length;
+        slots![outputIndex] = kept;
+      });
+      if (removed === 0) {
+        throw new Error(`No ${type} connection from "${operation.from}" to "${operation.to}"`);
+      }
+      return;
+    }
+
+    case 'setSetting': {
+      if (!operation.key) {
+        throw new Error('key is required');
+      }
+      workflow.settings = workflow.settings || {};
+      if (operation.value === undefined || operation.value === null) {
+        delete workflow.settings[operation.key];
+      } else {
+        workflow.settings[operation.key] = operation.value;
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown operation type "${(operation as any)?.type}". Use addNode, removeNode, updateNodeParameters, renameNode, addConnection, removeConnection or setSetting`);
+  }
+}
+
+function findNode(workflow: any, name: string): any {
+  const node = workflow.nodes.find((n: any) => n.name === name);
+  if (!node) {
+    throw new Error(`Node "${name}" not found (available: ${workflow.nodes.map((n: any) => n.name).join(', ')})`);
+  }
+  return node;
+}
+
+function renameInParameters(
+  value: any,
+  path: string,
+  oldName: string,
+  newName: string,
+  onChange: (path: string, before: string, after: string) => void
+): any {
+  if (typeof value === 'string') {
+    const key = path.slice(path.lastIndexOf('.') + 1);
+    const renamed = value.startsWith('=')
+      ? '=' + renameInExpression(value.slice(1), oldName, newName)
+      : CODE_PARAMETERS.includes(key) ? renameInCode(value, 0, value.length, oldName, newName) : value;
+    if (renamed !== value) onChange(path, value, renamed);
+    return renamed;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => renameInParameters(item, `${path}[${i}]`, oldName, newName, onChange));
+  }
+  if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      value[key] = renameInParameters(item, `${path}.${key}`, oldName, newName, onChange);
+    }
+  }
+  return value;
+}
+
+function renameInExpression(expression: string, oldName: string, newName: string): string {
+  // Rewrite from the last {{ }} backwards so earlier offsets stay valid
+  return parseExpression(expression).segments.reduceRight(
+    (result, segment) => renameInCode(result, segment.start, segment.start + segment.code.length, oldName, newName),
+    expression
+  );
+}
+
+/**
+ * Replace references to oldName in code[start, end)
+ */
+function renameInCode(code: string, start: number, end: number, oldName: string, newName: string): string {
+  const references = findNodeReferences(code.slice(start, end)).filter(r => r.name === oldName);
+  let result = code;
+  for (const reference of references.reverse()) {
+    const from = start + reference.start;
+    const to = start + reference.end;
+    if (reference.syntax === '$node.') {
+      if (/^[A-Za-z_$][\w$]*$/.test(newName)) {
+        result = result.slice(0, from) + newName + result.slice(to);
+      } else {
+        // Names that are not identifiers need the bracket form: $node.Old -> $node["New Name"]
+        const dot = result.lastIndexOf('.', from);
+        result = result.slice(0, dot) + `[${JSON.stringify(newName)}]` + result.slice(to);
+      }
+    } else {
+      const quote = result[from - 1];
+      result = result.slice(0, from) + escapeQuoted(newName, quote) + result.slice(to);
+    }
+  }
+  return result;
+}
+
+function escapeQuoted(value: string, quote: string): string {
+  const escaped = value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+  return quote === '`' ? escaped.replace(/\$\{/g, '\\${') : escaped;
+}
+
+function nextPosition(nodes: any[]): [number, number] {
+  const positioned = nodes.filter(n => Array.isArray(n.position));
+  if (positioned.length === 0) return [0, 0];
+  const rightmost = positioned.reduce((a, b) => (b.position[0] > a.position[0] ? b : a));
+  return [rightmost.position[0] + NODE_SPACING, rightmost.position[1]];
+}
+
+/**
+ * Parse a parameter path such as `options.timeout`, `rules.values[0].value`
+ * or `headers["Content-Type"]` (the format reported by diff_workflows)
+ */
+function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/g;
+  let match: RegExpExecArray | null;
+  const normalized = (path || '').replace(/^parameters\./, '');
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(JSON.parse(match[3]));
+  }
+  const forbidden = segments.find(segment => FORBIDDEN_SEGMENTS.includes(String(segment)));
+  if (forbidden !== undefined) {
+    throw new Error(`Invalid path "${path}": "${forbidden}" is not allowed as a path segment`);
+  }
+  return segments;
+}
+
+function setPath(target: any, segments: Array<string | number>, value: any): void {
+  let current = target;
+  segments.slice(0, -1).forEach((segment, i) => {
+    if (!Object.hasOwn(current, segment) || current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = typeof segments[i + 1] === 'number' ? [] : {};
+    }
+    current = current[segment];
+  });
+  current[segments[segments.length - 1]] = value;
+}
+
+function unsetPath(target: any, segments: Array<string | number>): void {
+  let current = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (typeof current !== 'object' || !Object.hasOwn(current, segment)) return;
+    current = current[segment];
+    if (current === undefined || current === null) return;
+  }
+  const last = segments[segments.length - 1];
+  if (typeof current !== 'object' || !Object.hasOwn(current, last)) return;
+  if (Array.isArray(current) && typeof last === 'number') {
+    current.splice(last, 1);
+  } else {
+    delete current[last];
+  }
+}
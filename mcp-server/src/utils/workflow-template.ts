@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { STICKY_NOTE_TYPE } from './workflow-graph.js';
+
+/**
+ * Workflow templates built from exported workflow JSON (editor download,
+ * `n8n export:workflow` or n8n.io template files). Values that differ per use
+ * are marked with <<placeholder>> in node parameters (e.g. "<<slackChannel>>")
+ * and filled in when a workflow is created from the template.
+ */
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  /** Node types used, without sticky notes */
+  nodeTypes: string[];
+  /** Placeholder names used in the workflow, e.g. "slackChannel" for <<slackChannel>> */
+  placeholders: string[];
+  workflow: { nodes: any[]; connections: any; settings?: any };
+}
+
+const PLACEHOLDER_PATTERN = /<<\s*([A-Za-z_][\w.-]*)\s*>>/g;
+// Settings that point at objects of the instance the workflow was exported from
+const INSTANCE_SETTINGS = ['errorWorkflow'];
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Templates in the content of one exported file: a workflow, a list of
+ * workflows, or a template object with the workflow under `workflow`.
+ * IDs are derived from `source` (the file path relative to the import directory).
+ */
+export function toTemplates(content: any, source: string): WorkflowTemplate[] {
+  const entries: any[] = Array.isArray(content) ? content : [content];
+  const baseId = slugify(source.replace(/\.json$/i, ''));
+
+  return entries.map((entry, i) => {
+    const workflow = Array.isArray(entry?.workflow?.nodes) ? entry.workflow : entry;
+    if (!workflow || !Array.isArray(workflow.nodes)) {
+      throw new Error(`${entries.length > 1 ? `entry ${i + 1} is` : 'content is'} not a workflow (no nodes array)`);
+    }
+
+    const nodes = workflow.nodes.map(cleanNode);
+    const settings = { ...(workflow.settings || {}) };
+    INSTANCE_SETTINGS.forEach(key => delete settings[key]);
+    const template = { nodes, connections: workflow.connections || {}, settings };
+
+    return {
+      id: entries.length > 1 ? `${baseId}-${i + 1}` : baseId,
+      name: entry.name || workflow.name || baseId,
+      description: (entry.description || workflow.description || stickyNoteText(nodes)).slice(0, MAX_DESCRIPTION_LENGTH),
+      tags: toTagNames(entry.tags ?? workflow.tags),
+      nodeTypes: [...new Set<string>(nodes.filter(isWorkflowNode).map((n: any) => n.type))].sort(),
+      placeholders: findPlaceholders(template),
+      workflow: template,
+    };
+  });
+}
+
+/**
+ * Text indexed for keyword search besides name, tags and description: sticky
+ * note contents and the words of the node types ("httpRequest" -> "http request")
+ */
+export function templateKeywords(template: WorkflowTemplate): string {
+  const nodeWords = template.nodeTypes.map(type =>
+    type.split('.').pop()!.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()
+  );
+  return [...new Set(nodeWords), stickyNoteText(template.workflow.nodes)].join(' ');
+}
+
+/**
+ * Placeholder names used anywhere in the value, in order of first use
+ */
+export function findPlaceholders(value: any): string[] {
+  const names = new Set<string>();
+  forEachString(value, text => {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1]);
+  });
+  return [...names];
+}
+
+/**
+ * Workflow JSON for a new workflow from the template: placeholders replaced,
+ * fresh node IDs and webhook IDs (so webhook paths do not collide with other
+ * workflows created from the same template). Throws when a placeholder has no value.
+ */
+export function instantiateTemplate(template: WorkflowTemplate, name: string, values: Record<string, any> = {}) {
+  const missing = template.placeholders.filter(p => values[p] === undefined || values[p] === null);
+  if (missing.length > 0) {
+    throw new Error(`Missing values for placeholders of template "${template.id}": ${missing.join(', ')}`);
+  }
+
+  const fill = (value: any): any => {
+    if (typeof value === 'string') {
+      // A value that is only a placeholder takes the given value as-is (numbers, booleans, objects)
+      const whole = /^<<\s*([A-Za-z_][\w.-]*)\s*>>$/.exec(value);
+      if (whole) return structuredClone(values[whole[1]]);
+      // Inside longer text, objects and arrays are written as JSON
+      return value.replace(PLACEHOLDER_PATTERN, (_, key) =>
+        typeof values[key] === 'object' ? JSON.stringify(values[key]) : String(values[key])
+      );
+    }
+    if (Array.isArray(value)) return value.map(fill);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+    }
+    return value;
+  };
+
+  const nodes = fill(template.workflow.nodes).map((node: any) => {
+    const renewed = { ...node, id: randomUUID() };
+    if (node.webhookId) {
+      renewed.webhookId = randomUUID();
+      if (renewed.parameters?.path === node.webhookId) {
+        renewed.parameters = { ...renewed.parameters, path: renewed.webhookId };
+      }
+    }
+    return renewed;
+  });
+
+  return {
+    name,
+    nodes,
+    connections: fill(template.workflow.connections),
+    settings: template.workflow.settings,
+  };
+}
+
+/**
+ * Keep what defines the node; credential references belong to the exporting
+ * instance and are bound again when a workflow is created from the template
+ */
+function cleanNode(node: any): any {
+  const { credentials, ...rest } = node || {};
+  return rest;
+}
+
+function isWorkflowNode(node: any): boolean {
+  return Boolean(node?.type) && node.type !== STICKY_NOTE_TYPE;
+}
+
+function stickyNoteText(nodes: any[]): string {
+  return nodes
+    .filter(n => n?.type === STICKY_NOTE_TYPE && typeof n.parameters?.content === 'string')
+    .map(n => n.parameters.content.replace(/[#*_`>]/g, '').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function toTagNames(tags: any): string[] {
+  if (!Array.isArray(tags)) return [];
+  return tags.map(t => (typeof t === 'string' ? t : t?.name)).filter((t): t is string => Boolean(t));
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[\\/]+/g, '-')
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '') || 'template';
+}
+
+function forEachString(value: any, callback: (value: string) => void) {
+  if (typeof value === 'string') {
+    callback(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => forEachString(item, callback));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => forEachString(item, callback));
+  }
+}